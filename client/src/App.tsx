@@ -11,6 +11,7 @@ function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/status/:token" component={Home} />
       <Route path="/admin" component={Admin} />
       <Route component={NotFound} />
     </Switch>
@@ -0,0 +1,320 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { analyticsIntervals, type AnalyticsInterval, type DropAnalytics, type JoinTimelinePoint } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { BarChart3, TrendingUp } from "lucide-react";
+
+const INTERVAL_LABELS: Record<AnalyticsInterval, string> = {
+  minute: "Per minute",
+  hour: "Per hour",
+};
+
+const INTERVAL_MS: Record<AnalyticsInterval, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+};
+
+// Past this many buckets the empty ones aren't filled in, which keeps long drops charted per minute light
+const MAX_FILLED_POINTS = 2000;
+
+// How many past drops the comparison chart shows, newest first
+const COMPARED_DROPS = 8;
+
+const joinsConfig = {
+  joins: { label: "Sign-ups", color: "#3b82f6" },
+} satisfies ChartConfig;
+
+const funnelConfig = {
+  count: { label: "People", color: "#3b82f6" },
+} satisfies ChartConfig;
+
+const comparisonConfig = {
+  confirmed: { label: "Confirmed", color: "#3b82f6" },
+  notifications: { label: "Notifications on", color: "#22c55e" },
+  boosted: { label: "Boosted", color: "#ec4899" },
+  conversion: { label: "Admitted → purchased", color: "#eab308" },
+} satisfies ChartConfig;
+
+// Whole-number percentage, or null when there is nothing to divide by
+function percent(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round((part / whole) * 100) : null;
+}
+
+function formatPercent(value: number | null) {
+  return value === null ? "—" : `${value}%`;
+}
+
+function signups(drop: DropAnalytics) {
+  return drop.entries + drop.expiredSignups;
+}
+
+// Rates shown on the cards and compared across drops
+function dropRates(drop: DropAnalytics) {
+  return {
+    confirmed: percent(drop.verified, signups(drop)),
+    dropOff: percent(drop.expiredSignups, signups(drop)),
+    notifications: percent(drop.notifications, drop.entries),
+    sms: percent(drop.smsConsent, drop.entries),
+    boosted: percent(drop.boosted, drop.entries),
+    conversion: percent(drop.purchased, drop.admitted),
+  };
+}
+
+// The server leaves out buckets nobody joined in; the chart needs them as zeros to show the lulls
+function fillTimeline(points: JoinTimelinePoint[], interval: AnalyticsInterval) {
+  const step = INTERVAL_MS[interval];
+  const times = points.map((point) => ({ at: new Date(point.at).getTime(), joins: point.joins }));
+  if (times.length < 2 || (times[times.length - 1].at - times[0].at) / step > MAX_FILLED_POINTS) return times;
+
+  const byTime = new Map(times.map((point) => [point.at, point.joins]));
+  const filled: { at: number; joins: number }[] = [];
+  for (let at = times[0].at; at <= times[times.length - 1].at; at += step) {
+    filled.push({ at, joins: byTime.get(at) ?? 0 });
+  }
+  return filled;
+}
+
+function formatBucket(at: number, interval: AnalyticsInterval) {
+  const date = new Date(at);
+  return interval === "minute"
+    ? date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleString([], { month: "short", day: "numeric", hour: "2-digit" });
+}
+
+function StatCard({ label, value, detail }: { label: string; value: string; detail: string }) {
+  return (
+    <div className="p-4 bg-black/40 border border-gray-800 rounded-lg">
+      <div className="text-sm text-gray-400">{label}</div>
+      <div className="text-2xl font-bold text-white mt-1">{value}</div>
+      <div className="text-xs text-gray-500 mt-1">{detail}</div>
+    </div>
+  );
+}
+
+export default function AnalyticsTab() {
+  const [dropId, setDropId] = useState<string>();
+  const [interval, setBucketInterval] = useState<AnalyticsInterval>("hour");
+
+  const { data: analytics, isLoading } = useQuery<DropAnalytics[]>({
+    queryKey: ["/api/admin/analytics/drops"],
+    refetchInterval: 60000,
+  });
+
+  // Start on the newest drop, and move off a drop once it's deleted
+  useEffect(() => {
+    if (analytics && !analytics.some((drop) => drop.dropId === dropId)) {
+      setDropId(analytics[0]?.dropId);
+    }
+  }, [analytics, dropId]);
+
+  const { data: timeline, isLoading: timelineLoading } = useQuery<JoinTimelinePoint[]>({
+    queryKey: [`/api/admin/analytics/drops/${dropId}/joins?interval=${interval}`],
+    enabled: !!dropId,
+    refetchInterval: 60000,
+  });
+
+  const drop = analytics?.find((candidate) => candidate.dropId === dropId);
+
+  if (isLoading) {
+    return <div className="text-center py-8 text-gray-400">Loading analytics...</div>;
+  }
+
+  if (!analytics || analytics.length === 0 || !drop) {
+    return <div className="text-center py-8 text-gray-400">No drops yet.</div>;
+  }
+
+  const rates = dropRates(drop);
+  const joins = timeline ? fillTimeline(timeline, interval) : [];
+  const funnel = [
+    { stage: "Signed up", count: signups(drop) },
+    { stage: "Confirmed", count: drop.verified },
+    { stage: "Admitted", count: drop.admitted },
+    { stage: "Opened checkout", count: drop.redeemed },
+    { stage: "Purchased", count: drop.purchased },
+  ];
+  const compared = analytics.slice(0, COMPARED_DROPS).reverse();
+  const comparison = compared.map((past) => ({ name: past.name, ...dropRates(past) }));
+
+  return (
+    <div className="space-y-8">
+      <Card className="bg-gray-900/50 backdrop-blur-sm border-gray-800">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center space-x-2">
+            <TrendingUp className="w-5 h-5" />
+            <span>Drop Performance</span>
+          </CardTitle>
+          <Select value={drop.dropId} onValueChange={setDropId}>
+            <SelectTrigger className="w-64 bg-black border-gray-700 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {analytics.map((option) => (
+                <SelectItem key={option.dropId} value={option.dropId}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="space-y-8">
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+            <StatCard
+              label="Sign-ups"
+              value={String(signups(drop))}
+              detail={`${drop.entries} still in the queue`}
+            />
+            <StatCard
+              label="Verification drop-off"
+              value={formatPercent(rates.dropOff)}
+              detail={`${drop.expiredSignups} never confirmed their email`}
+            />
+            <StatCard
+              label="Notification opt-in"
+              value={formatPercent(rates.notifications)}
+              detail={`${formatPercent(rates.sms)} agreed to texts`}
+            />
+            <StatCard
+              label="Boost uptake"
+              value={formatPercent(rates.boosted)}
+              detail={`${drop.boostClaims} claimed, ${drop.boosted} boosted`}
+            />
+            <StatCard
+              label="Admission to purchase"
+              value={formatPercent(rates.conversion)}
+              detail={`${drop.purchased} of ${drop.admitted} admitted bought`}
+            />
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-white">Sign-ups over time</h3>
+              <Select value={interval} onValueChange={(value) => setBucketInterval(value as AnalyticsInterval)}>
+                <SelectTrigger className="w-36 bg-black border-gray-700 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {analyticsIntervals.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {INTERVAL_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {timelineLoading ? (
+              <div className="text-center py-8 text-gray-400">Loading sign-ups...</div>
+            ) : joins.length > 0 ? (
+              <ChartContainer config={joinsConfig} className="h-64 w-full aspect-auto">
+                <LineChart data={joins}>
+                  <CartesianGrid vertical={false} stroke="#374151" />
+                  <XAxis
+                    dataKey="at"
+                    tickFormatter={(at: number) => formatBucket(at, interval)}
+                    tickLine={false}
+                    axisLine={false}
+                    minTickGap={32}
+                  />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip
+                    content={<ChartTooltipContent labelFormatter={(_, payload) => formatBucket(payload[0]?.payload.at, interval)} />}
+                  />
+                  <Line dataKey="joins" type="monotone" stroke="var(--color-joins)" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ChartContainer>
+            ) : (
+              <div className="text-center py-8 text-gray-400">No one is in this drop's queue yet.</div>
+            )}
+            <p className="text-xs text-gray-500">
+              Counts people still in the queue; sign-ups removed for not confirming their email aren't shown.
+            </p>
+          </div>
+
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold text-white">Funnel</h3>
+            <ChartContainer config={funnelConfig} className="h-64 w-full aspect-auto">
+              <BarChart data={funnel}>
+                <CartesianGrid vertical={false} stroke="#374151" />
+                <XAxis dataKey="stage" tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-gray-900/50 backdrop-blur-sm border-gray-800">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <BarChart3 className="w-5 h-5" />
+            <span>Compared with past drops</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <ChartContainer config={comparisonConfig} className="h-72 w-full aspect-auto">
+            <BarChart data={comparison}>
+              <CartesianGrid vertical={false} stroke="#374151" />
+              <XAxis dataKey="name" tickLine={false} axisLine={false} />
+              <YAxis domain={[0, 100]} tickFormatter={(value: number) => `${value}%`} tickLine={false} axisLine={false} width={48} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {Object.keys(comparisonConfig).map((key) => (
+                <Bar key={key} dataKey={key} fill={`var(--color-${key})`} radius={4} />
+              ))}
+            </BarChart>
+          </ChartContainer>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left p-3 text-gray-400">Drop</th>
+                  <th className="text-left p-3 text-gray-400">Drop Time</th>
+                  <th className="text-left p-3 text-gray-400">Sign-ups</th>
+                  <th className="text-left p-3 text-gray-400">Drop-off</th>
+                  <th className="text-left p-3 text-gray-400">Notifications</th>
+                  <th className="text-left p-3 text-gray-400">Boosted</th>
+                  <th className="text-left p-3 text-gray-400">Admitted</th>
+                  <th className="text-left p-3 text-gray-400">Purchased</th>
+                  <th className="text-left p-3 text-gray-400">Conversion</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analytics.map((past) => {
+                  const pastRates = dropRates(past);
+                  return (
+                    <tr
+                      key={past.dropId}
+                      className={`border-b border-gray-800 ${past.dropId === drop.dropId ? "bg-gray-800/50" : ""}`}
+                    >
+                      <td className="p-3 text-white">{past.name}</td>
+                      <td className="p-3 text-gray-400">{new Date(past.dropTime).toLocaleString()}</td>
+                      <td className="p-3 text-gray-300">{signups(past)}</td>
+                      <td className="p-3 text-gray-300">{formatPercent(pastRates.dropOff)}</td>
+                      <td className="p-3 text-gray-300">{formatPercent(pastRates.notifications)}</td>
+                      <td className="p-3 text-gray-300">{formatPercent(pastRates.boosted)}</td>
+                      <td className="p-3 text-gray-300">{past.admitted}</td>
+                      <td className="p-3 text-gray-300">{past.purchased}</td>
+                      <td className="p-3 text-gray-300">{formatPercent(pastRates.conversion)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
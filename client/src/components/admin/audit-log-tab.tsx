@@ -0,0 +1,95 @@
+import { useQuery } from "@tanstack/react-query";
+import { type AuditLog } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { History } from "lucide-react";
+
+type JsonRecord = Record<string, unknown> | null;
+
+// Fields whose value differs between the before and after snapshots
+function changedFields(before: JsonRecord, after: JsonRecord) {
+  const keys = Array.from(new Set([...Object.keys(before || {}), ...Object.keys(after || {})]));
+  return keys
+    .filter((key) => key !== "updatedAt")
+    .filter((key) => JSON.stringify(before?.[key]) !== JSON.stringify(after?.[key]))
+    .map((key) => ({ key, before: before?.[key], after: after?.[key] }));
+}
+
+function formatValue(value: unknown) {
+  if (value === undefined || value === null) return "-";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+export default function AuditLogTab() {
+  const { data: logs, isLoading } = useQuery<AuditLog[]>({
+    queryKey: ["/api/admin/audit-logs"],
+    refetchInterval: 30000,
+  });
+
+  return (
+    <Card className="bg-gray-900/50 backdrop-blur-sm border-gray-800">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="w-5 h-5" />
+          <span>Audit Log</span>
+          <span className="text-sm text-gray-400 font-normal">(latest 200)</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8 text-gray-400">Loading audit log...</div>
+        ) : logs && logs.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left p-3 text-gray-400">Time</th>
+                  <th className="text-left p-3 text-gray-400">Actor</th>
+                  <th className="text-left p-3 text-gray-400">Action</th>
+                  <th className="text-left p-3 text-gray-400">Changes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {logs.map((log) => {
+                  const changes = changedFields(log.before as JsonRecord, log.after as JsonRecord);
+                  return (
+                    <tr key={log.id} className="border-b border-gray-800 align-top">
+                      <td className="p-3 text-gray-400 whitespace-nowrap">
+                        {new Date(log.createdAt).toLocaleString()}
+                      </td>
+                      <td className="p-3 text-white">{log.actorUsername}</td>
+                      <td className="p-3">
+                        <span className="px-2 py-1 rounded-full text-xs bg-blue-600/20 text-blue-400">
+                          {log.action}
+                        </span>
+                      </td>
+                      <td className="p-3 text-gray-400">
+                        {changes.length === 0 ? (
+                          "-"
+                        ) : (
+                          <ul className="space-y-1">
+                            {changes.map((change) => (
+                              <li key={change.key}>
+                                <span className="text-gray-300">{change.key}</span>:{" "}
+                                <span className="text-red-400">{formatValue(change.before)}</span>
+                                {" → "}
+                                <span className="text-green-400">{formatValue(change.after)}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-400">
+            No admin actions recorded yet.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { banKinds, type Ban, type BanKind } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Ban as BanIcon, Trash2 } from "lucide-react";
+
+const BAN_KIND_LABELS: Record<BanKind, string> = {
+  email: "Email",
+  domain: "Domain",
+};
+
+// Banned addresses and domains can't join any drop; lifting a ban doesn't restore removed entries
+export default function BansPanel({ canOperate }: { canOperate: boolean }) {
+  const [kind, setKind] = useState<BanKind>("domain");
+  const [value, setValue] = useState("");
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+
+  const { data: bans, isLoading } = useQuery<Ban[]>({
+    queryKey: ["/api/admin/bans"],
+  });
+
+  const onMutationError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Something went wrong. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const refreshBans = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/bans"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/audit-logs"] });
+  };
+
+  const createBanMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/admin/bans", { kind, value, reason });
+    },
+    onSuccess: () => {
+      refreshBans();
+      setValue("");
+      setReason("");
+      toast({ title: "Ban added" });
+    },
+    onError: onMutationError("Failed to add ban"),
+  });
+
+  const deleteBanMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/bans/${id}`);
+    },
+    onSuccess: () => {
+      refreshBans();
+      toast({ title: "Ban lifted" });
+    },
+    onError: onMutationError("Failed to lift ban"),
+  });
+
+  return (
+    <div className="mb-6 p-4 bg-black/40 border border-gray-800 rounded-lg space-y-4">
+      {canOperate && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={kind} onValueChange={(next) => setKind(next as BanKind)}>
+            <SelectTrigger className="w-32 bg-black border-gray-700 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {banKinds.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {BAN_KIND_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder={kind === "email" ? "someone@example.com" : "example.com"}
+            className="w-64 bg-black border-gray-700 text-white"
+          />
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason (optional)"
+            className="flex-1 min-w-48 bg-black border-gray-700 text-white"
+          />
+          <Button
+            disabled={!value.trim() || createBanMutation.isPending}
+            onClick={() => createBanMutation.mutate()}
+            className="bg-white text-black hover:bg-gray-200"
+          >
+            <BanIcon className="w-4 h-4 mr-2" />
+            Ban
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-4 text-gray-400">Loading bans...</div>
+      ) : bans && bans.length > 0 ? (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-700">
+              <th className="text-left p-2 text-gray-400">Banned</th>
+              <th className="text-left p-2 text-gray-400">Reason</th>
+              <th className="text-left p-2 text-gray-400">By</th>
+              <th className="text-left p-2 text-gray-400">Since</th>
+              {canOperate && <th className="p-2" />}
+            </tr>
+          </thead>
+          <tbody>
+            {bans.map((ban) => (
+              <tr key={ban.id} className="border-b border-gray-800">
+                <td className="p-2 text-white">{ban.kind === "domain" ? `@${ban.value}` : ban.value}</td>
+                <td className="p-2 text-gray-400">{ban.reason || "-"}</td>
+                <td className="p-2 text-gray-400">{ban.createdBy}</td>
+                <td className="p-2 text-gray-400">{new Date(ban.createdAt).toLocaleString()}</td>
+                {canOperate && (
+                  <td className="p-2 text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={deleteBanMutation.isPending}
+                      onClick={() => deleteBanMutation.mutate(ban.id)}
+                      className="text-gray-400 hover:text-red-400 hover:bg-gray-800"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <div className="text-center py-4 text-gray-400">No bans.</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { verificationStatuses, type BoostClaim, type VerificationStatus } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Check, Instagram, X } from "lucide-react";
+
+type ClaimFilter = VerificationStatus | "all";
+
+interface ReviewResponse {
+  reviewed: number;
+  skipped: number;
+}
+
+const statusStyles: Record<VerificationStatus, string> = {
+  pending: "bg-yellow-600/20 text-yellow-400",
+  approved: "bg-green-600/20 text-green-400",
+  rejected: "bg-red-600/20 text-red-400",
+};
+
+export default function BoostClaimsTab({ canOperate }: { canOperate: boolean }) {
+  const [filter, setFilter] = useState<ClaimFilter>("pending");
+  const [selected, setSelected] = useState<string[]>([]);
+  const { toast } = useToast();
+
+  const { data: claims, isLoading } = useQuery<BoostClaim[]>({
+    queryKey: [filter === "all" ? "/api/admin/boost-claims" : `/api/admin/boost-claims?status=${filter}`],
+    refetchInterval: 30000,
+  });
+
+  const pendingIds = claims?.filter((claim) => claim.status === "pending").map((claim) => claim.id) || [];
+  const allSelected = pendingIds.length > 0 && pendingIds.every((id) => selected.includes(id));
+
+  const reviewMutation = useMutation({
+    mutationFn: async (data: { ids: string[]; decision: "approved" | "rejected" }) => {
+      const response = await apiRequest("POST", "/api/admin/boost-claims/review", data);
+      return response.json() as Promise<ReviewResponse>;
+    },
+    onSuccess: (data, variables) => {
+      setSelected([]);
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/boost-claims"),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/queue"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/audit-logs"] });
+      toast({
+        title: `${data.reviewed} claim${data.reviewed === 1 ? "" : "s"} ${variables.decision}`,
+        description: data.skipped > 0 ? `${data.skipped} skipped (already reviewed or no longer in the queue)` : undefined,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to review claims",
+        description: error.message || "Something went wrong. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected((current) => checked ? [...current, id] : current.filter((value) => value !== id));
+  };
+
+  const review = (decision: "approved" | "rejected") => {
+    reviewMutation.mutate({ ids: selected, decision });
+  };
+
+  return (
+    <Card className="bg-gray-900/50 backdrop-blur-sm border-gray-800">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Instagram className="w-5 h-5" />
+            <span>Boost Claims</span>
+            <span className="text-sm text-gray-400 font-normal">({claims?.length || 0})</span>
+          </div>
+          <Select
+            value={filter}
+            onValueChange={(value) => {
+              setFilter(value as ClaimFilter);
+              setSelected([]);
+            }}
+          >
+            <SelectTrigger className="w-40 bg-black border-gray-700 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All claims</SelectItem>
+              {verificationStatuses.map((status) => (
+                <SelectItem key={status} value={status}>{status}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {canOperate && (
+          <div className="flex items-center space-x-2 mb-4">
+            <Button
+              size="sm"
+              disabled={selected.length === 0 || reviewMutation.isPending}
+              onClick={() => review("approved")}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              <Check className="w-4 h-4 mr-1" />
+              Approve ({selected.length})
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={selected.length === 0 || reviewMutation.isPending}
+              onClick={() => review("rejected")}
+              className="border-red-600 text-red-400 hover:bg-red-600/10"
+            >
+              <X className="w-4 h-4 mr-1" />
+              Reject ({selected.length})
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-8 text-gray-400">Loading boost claims...</div>
+        ) : claims && claims.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  {canOperate && (
+                    <th className="text-left p-3">
+                      <Checkbox
+                        checked={allSelected}
+                        disabled={pendingIds.length === 0}
+                        onCheckedChange={(checked) => setSelected(checked ? pendingIds : [])}
+                      />
+                    </th>
+                  )}
+                  <th className="text-left p-3 text-gray-400">Claimed</th>
+                  <th className="text-left p-3 text-gray-400">Username</th>
+                  <th className="text-left p-3 text-gray-400">Email</th>
+                  <th className="text-left p-3 text-gray-400">Position</th>
+                  <th className="text-left p-3 text-gray-400">Status</th>
+                  <th className="text-left p-3 text-gray-400">Detail</th>
+                </tr>
+              </thead>
+              <tbody>
+                {claims.map((claim) => (
+                  <tr key={claim.id} className="border-b border-gray-800 align-top">
+                    {canOperate && (
+                      <td className="p-3">
+                        <Checkbox
+                          checked={selected.includes(claim.id)}
+                          disabled={claim.status !== "pending"}
+                          onCheckedChange={(checked) => toggle(claim.id, checked === true)}
+                        />
+                      </td>
+                    )}
+                    <td className="p-3 text-gray-400 whitespace-nowrap">
+                      {new Date(claim.createdAt).toLocaleString()}
+                    </td>
+                    <td className="p-3">
+                      <a
+                        href={`https://instagram.com/${claim.username}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="text-pink-400 hover:underline"
+                      >
+                        @{claim.username}
+                      </a>
+                    </td>
+                    <td className="p-3 text-white">{claim.email}</td>
+                    <td className="p-3 text-white font-semibold">#{claim.position}</td>
+                    <td className="p-3">
+                      <span className={`px-2 py-1 rounded-full text-xs ${statusStyles[claim.status as VerificationStatus]}`}>
+                        {claim.status}
+                      </span>
+                    </td>
+                    <td className="p-3 text-gray-400">{claim.detail || "-"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-400">
+            No {filter === "all" ? "" : `${filter} `}boost claims.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,267 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { type BanKind, type QueueEntry } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { ArrowUpDown, Ban, Instagram, MoreHorizontal, Send, Trash2 } from "lucide-react";
+
+const RESEND_LABELS = {
+  verification: "Confirmation link sent again",
+  access: "Access link sent again",
+  position: "Queue position sent again",
+} as const;
+
+function emailDomain(email: string) {
+  return email.slice(email.lastIndexOf("@") + 1).toLowerCase();
+}
+
+// Row menu for operators in the queue table
+export default function QueueEntryActions({ entry }: { entry: QueueEntry }) {
+  const [dialog, setDialog] = useState<"move" | "ban" | "remove" | null>(null);
+  const [position, setPosition] = useState(String(entry.position));
+  const [banKind, setBanKind] = useState<BanKind>("email");
+  const [banReason, setBanReason] = useState("");
+  const [removeEntries, setRemoveEntries] = useState(true);
+  const { toast } = useToast();
+
+  const refreshQueue = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/queue"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/audit-logs"] });
+  };
+
+  const onMutationError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Something went wrong. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/admin/queue/${entry.id}`);
+    },
+    onSuccess: () => {
+      refreshQueue();
+      setDialog(null);
+      toast({ title: "Entry removed", description: `${entry.email} is no longer in the queue.` });
+    },
+    onError: onMutationError("Failed to remove entry"),
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async (target: number) => {
+      const response = await apiRequest("POST", `/api/admin/queue/${entry.id}/move`, { position: target });
+      return response.json() as Promise<QueueEntry>;
+    },
+    onSuccess: (moved) => {
+      refreshQueue();
+      setDialog(null);
+      toast({ title: "Entry moved", description: `${entry.email} is now at position #${moved.position}.` });
+    },
+    onError: onMutationError("Failed to move entry"),
+  });
+
+  const revertBoostMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/admin/queue/${entry.id}/revert-boost`);
+      return response.json() as Promise<QueueEntry>;
+    },
+    onSuccess: (reverted) => {
+      refreshQueue();
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/boost-claims"),
+      });
+      toast({ title: "Boost reverted", description: `${entry.email} moved back to position #${reverted.position}.` });
+    },
+    onError: onMutationError("Failed to revert boost"),
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/admin/queue/${entry.id}/resend`);
+      return response.json() as Promise<{ sent: keyof typeof RESEND_LABELS }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/audit-logs"] });
+      toast({ title: RESEND_LABELS[data.sent], description: entry.email });
+    },
+    onError: onMutationError("Failed to resend notification"),
+  });
+
+  const banMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/bans", {
+        kind: banKind,
+        value: banKind === "email" ? entry.email : emailDomain(entry.email),
+        reason: banReason,
+        removeEntries,
+      });
+      return response.json() as Promise<{ removed: number }>;
+    },
+    onSuccess: (data) => {
+      refreshQueue();
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/bans"] });
+      setDialog(null);
+      setBanReason("");
+      toast({
+        title: banKind === "email" ? "Email banned" : "Domain banned",
+        description: data.removed > 0 ? `${data.removed} entr${data.removed === 1 ? "y" : "ies"} removed from the queue` : undefined,
+      });
+    },
+    onError: onMutationError("Failed to ban"),
+  });
+
+  const openBan = (kind: BanKind) => {
+    setBanKind(kind);
+    setDialog("ban");
+  };
+
+  const target = parseInt(position, 10);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="text-gray-400 hover:text-white hover:bg-gray-800">
+            <MoreHorizontal className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => { setPosition(String(entry.position)); setDialog("move"); }}>
+            <ArrowUpDown className="w-4 h-4 mr-2" />
+            Move to position
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={resendMutation.isPending} onClick={() => resendMutation.mutate()}>
+            <Send className="w-4 h-4 mr-2" />
+            Resend notification
+          </DropdownMenuItem>
+          {entry.instagramBoostUsed && (
+            <DropdownMenuItem disabled={revertBoostMutation.isPending} onClick={() => revertBoostMutation.mutate()}>
+              <Instagram className="w-4 h-4 mr-2" />
+              Revert boost
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => openBan("email")}>
+            <Ban className="w-4 h-4 mr-2" />
+            Ban email
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => openBan("domain")}>
+            <Ban className="w-4 h-4 mr-2" />
+            Ban @{emailDomain(entry.email)}
+          </DropdownMenuItem>
+          <DropdownMenuItem className="text-red-500" onClick={() => setDialog("remove")}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Remove from queue
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialog === "move"} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Move {entry.email}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`move-${entry.id}`}>
+              New position {entry.tier === "waitlist" ? "on the waitlist" : "in the queue"} (now #{entry.position})
+            </Label>
+            <Input
+              id={`move-${entry.id}`}
+              type="number"
+              min={1}
+              value={position}
+              onChange={(e) => setPosition(e.target.value)}
+            />
+            <p className="text-xs text-gray-500">Everyone in between shifts by one; positions past the end move it to the end.</p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>Cancel</Button>
+            <Button disabled={!(target >= 1) || moveMutation.isPending} onClick={() => moveMutation.mutate(target)}>
+              Move
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={dialog === "ban"} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Ban {banKind === "email" ? entry.email : `every address at ${emailDomain(entry.email)}`}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor={`ban-reason-${entry.id}`}>Reason (optional)</Label>
+              <Input
+                id={`ban-reason-${entry.id}`}
+                value={banReason}
+                onChange={(e) => setBanReason(e.target.value)}
+                placeholder="e.g. Bot sign-ups"
+              />
+            </div>
+            <label className="flex items-center space-x-2 text-sm">
+              <Switch checked={removeEntries} onCheckedChange={setRemoveEntries} />
+              <span>Also remove {banKind === "email" ? "this address" : "these addresses"} from every drop's queue</span>
+            </label>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>Cancel</Button>
+            <Button variant="destructive" disabled={banMutation.isPending} onClick={() => banMutation.mutate()}>
+              Ban
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={dialog === "remove"} onOpenChange={(open) => !open && setDialog(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {entry.email}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Everyone behind #{entry.position} moves up one spot. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={removeMutation.isPending}
+              onClick={(e) => {
+                // Stay open until the request finishes
+                e.preventDefault();
+                removeMutation.mutate();
+              }}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
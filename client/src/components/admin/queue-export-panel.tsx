@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { queueExportColumns, type QueueExportColumn, type QueueExportFormat } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download } from "lucide-react";
+
+const COLUMN_LABELS: Record<QueueExportColumn, string> = {
+  email: "Email",
+  phone: "Phone",
+  tier: "Tier",
+  position: "Position",
+  instagramUsername: "Instagram",
+  joinedAt: "Joined At",
+  notifications: "Notifications opt-in",
+};
+
+// Download link for GET /api/admin/queue-export; the drop comes from the queue table's filter
+export default function QueueExportPanel({ dropId }: { dropId?: string }) {
+  const [format, setFormat] = useState<QueueExportFormat>("csv");
+  const [columns, setColumns] = useState<QueueExportColumn[]>([...queueExportColumns]);
+  // datetime-local values, in the admin's own timezone
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const toggleColumn = (column: QueueExportColumn, checked: boolean) => {
+    // Keep the server's column order whatever order they were ticked in
+    setColumns((current) => queueExportColumns.filter((c) => c === column ? checked : current.includes(c)));
+  };
+
+  const rangeInvalid = !!from && !!to && new Date(from) > new Date(to);
+  const canDownload = columns.length > 0 && !rangeInvalid;
+
+  const params = new URLSearchParams({ format, columns: columns.join(",") });
+  if (dropId) params.set("dropId", dropId);
+  if (from) params.set("from", new Date(from).toISOString());
+  if (to) params.set("to", new Date(to).toISOString());
+  const href = `/api/admin/queue-export?${params}`;
+
+  return (
+    <div className="mb-6 p-4 bg-black/40 border border-gray-800 rounded-lg space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label className="text-gray-400">Format</Label>
+          <Select value={format} onValueChange={(value) => setFormat(value as QueueExportFormat)}>
+            <SelectTrigger className="w-36 bg-black border-gray-700 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="csv">CSV</SelectItem>
+              <SelectItem value="jsonl">JSON Lines</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="export-from" className="text-gray-400">Joined from</Label>
+          <Input
+            id="export-from"
+            type="datetime-local"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="bg-black border-gray-700 text-white"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="export-to" className="text-gray-400">Joined until</Label>
+          <Input
+            id="export-to"
+            type="datetime-local"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="bg-black border-gray-700 text-white"
+          />
+        </div>
+        {canDownload ? (
+          <Button asChild className="bg-white text-black hover:bg-gray-200">
+            <a href={href} download>
+              <Download className="w-4 h-4 mr-2" />
+              Download
+            </a>
+          </Button>
+        ) : (
+          <Button disabled className="bg-white text-black">
+            <Download className="w-4 h-4 mr-2" />
+            Download
+          </Button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-4">
+        {queueExportColumns.map((column) => (
+          <label key={column} className="flex items-center space-x-2 text-sm text-gray-300">
+            <Checkbox
+              checked={columns.includes(column)}
+              onCheckedChange={(checked) => toggleColumn(column, checked === true)}
+            />
+            <span>{COLUMN_LABELS[column]}</span>
+          </label>
+        ))}
+      </div>
+      {rangeInvalid && (
+        <p className="text-sm text-red-400">The start of the range must be before its end</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { type Drop, type QueueImportPlacement, type QueueImportReport, type QueueImportRow } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { Eye, Upload } from "lucide-react";
+
+const PLACEMENT_LABELS: Record<QueueImportPlacement, string> = {
+  end: "End of the queue",
+  top: "Priority (front of the queue)",
+  position: "Starting at position…",
+};
+
+const ROW_STATUS_STYLES: Record<QueueImportRow["status"], string> = {
+  ready: "bg-blue-600/20 text-blue-400",
+  created: "bg-green-600/20 text-green-400",
+  duplicate: "bg-yellow-600/20 text-yellow-400",
+  invalid: "bg-red-600/20 text-red-400",
+};
+
+// The CSV goes up as the raw request body, which apiRequest (JSON only) can't send
+async function postImport(csv: string, params: URLSearchParams): Promise<QueueImportReport> {
+  const res = await fetch(`/api/admin/queue-import?${params}`, {
+    method: "POST",
+    headers: { "Content-Type": "text/csv" },
+    body: csv,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.message || res.statusText);
+  }
+  return res.json();
+}
+
+// Upload a CSV of emails into a drop's queue: preview first, then import exactly what was previewed
+export default function QueueImportPanel({ drops, defaultDropId }: { drops: Drop[]; defaultDropId?: string }) {
+  const [dropId, setDropId] = useState(defaultDropId ?? "");
+  const [file, setFile] = useState<{ name: string; csv: string } | null>(null);
+  const [placement, setPlacement] = useState<QueueImportPlacement>("end");
+  const [start, setStart] = useState("1");
+  const [notify, setNotify] = useState(false);
+  const [report, setReport] = useState<QueueImportReport | null>(null);
+  // Options the current preview was made with; changing any of them asks for a new preview
+  const [previewed, setPreviewed] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const params = new URLSearchParams({ dropId, placement, notify: String(notify) });
+  if (placement === "position") params.set("start", start);
+  const optionsKey = `${params}|${file?.name}|${file?.csv.length}`;
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const query = new URLSearchParams(params);
+      query.set("dryRun", String(dryRun));
+      return postImport(file!.csv, query);
+    },
+    onSuccess: (data) => {
+      setReport(data);
+      if (data.dryRun) {
+        setPreviewed(optionsKey);
+        return;
+      }
+
+      setPreviewed(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/queue"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/audit-logs"] });
+      toast({
+        title: `${data.created} ${data.created === 1 ? "entry" : "entries"} imported`,
+        description: data.duplicates + data.invalid > 0
+          ? `${data.duplicates} duplicate${data.duplicates === 1 ? "" : "s"} and ${data.invalid} invalid row${data.invalid === 1 ? "" : "s"} skipped`
+          : undefined,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Import failed",
+        description: error.message || "Something went wrong. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFile = async (selected: File | undefined) => {
+    setReport(null);
+    setFile(selected ? { name: selected.name, csv: await selected.text() } : null);
+  };
+
+  const startValid = placement !== "position" || parseInt(start, 10) >= 1;
+  const canPreview = !!dropId && !!file && startValid && !importMutation.isPending;
+  const canImport = canPreview && previewed === optionsKey && !!report?.dryRun && report.created > 0;
+
+  return (
+    <div className="mb-6 p-4 bg-black/40 border border-gray-800 rounded-lg space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label className="text-gray-400">Drop</Label>
+          <Select value={dropId} onValueChange={setDropId}>
+            <SelectTrigger className="w-56 bg-black border-gray-700 text-white">
+              <SelectValue placeholder="Choose a drop" />
+            </SelectTrigger>
+            <SelectContent>
+              {drops.map((drop) => (
+                <SelectItem key={drop.id} value={drop.id}>
+                  {drop.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="import-file" className="text-gray-400">CSV file</Label>
+          <Input
+            id="import-file"
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="bg-black border-gray-700 text-white"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-gray-400">Place at</Label>
+          <Select value={placement} onValueChange={(value) => setPlacement(value as QueueImportPlacement)}>
+            <SelectTrigger className="w-60 bg-black border-gray-700 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PLACEMENT_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {placement === "position" && (
+          <div className="space-y-1">
+            <Label htmlFor="import-start" className="text-gray-400">First position</Label>
+            <Input
+              id="import-start"
+              type="number"
+              min={1}
+              value={start}
+              onChange={(e) => setStart(e.target.value)}
+              className="w-28 bg-black border-gray-700 text-white"
+            />
+          </div>
+        )}
+        <label className="flex items-center space-x-2 pb-2 text-sm text-gray-300">
+          <Switch checked={notify} onCheckedChange={setNotify} />
+          <span>Email imported people</span>
+        </label>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Needs an email column; phone, notifications and sms_consent columns are optional. Imported entries count as
+        confirmed and can go past the drop's max queue size; emails already in the drop are skipped.
+      </p>
+
+      <div className="flex space-x-2">
+        <Button
+          variant="outline"
+          disabled={!canPreview}
+          onClick={() => importMutation.mutate(true)}
+          className="border-gray-700 text-white hover:bg-gray-800"
+        >
+          <Eye className="w-4 h-4 mr-2" />
+          Preview
+        </Button>
+        <Button
+          disabled={!canImport}
+          onClick={() => importMutation.mutate(false)}
+          className="bg-white text-black hover:bg-gray-200"
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          {report?.dryRun && previewed === optionsKey ? `Import ${report.created}` : "Import"}
+        </Button>
+      </div>
+
+      {report && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-300">
+            {report.dryRun ? "Preview: " : "Imported: "}
+            {report.created} {report.dryRun ? "to add" : "added"}, {report.duplicates} duplicate{report.duplicates === 1 ? "" : "s"}, {report.invalid} invalid
+          </p>
+          <div className="max-h-72 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left p-2 text-gray-400">Row</th>
+                  <th className="text-left p-2 text-gray-400">Email</th>
+                  <th className="text-left p-2 text-gray-400">Result</th>
+                  <th className="text-left p-2 text-gray-400">Position</th>
+                  <th className="text-left p-2 text-gray-400">Problems</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.map((row) => (
+                  <tr key={row.row} className="border-b border-gray-800">
+                    <td className="p-2 text-gray-400">{row.row}</td>
+                    <td className="p-2 text-white">{row.email || "—"}</td>
+                    <td className="p-2">
+                      <span className={`px-2 py-1 rounded text-xs capitalize ${ROW_STATUS_STYLES[row.status]}`}>
+                        {row.status}
+                      </span>
+                    </td>
+                    <td className="p-2 text-gray-300">{row.position ? `#${row.position}` : "—"}</td>
+                    <td className="p-2 text-gray-400">{row.errors?.join("; ") || ""}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+import { useEffect, useRef, useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { type AbuseSignal, type Drop, type QueueEntryPage } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import QueueExportPanel from "@/components/admin/queue-export-panel";
+import QueueImportPanel from "@/components/admin/queue-import-panel";
+import QueueEntryActions from "@/components/admin/queue-entry-actions";
+import BansPanel from "@/components/admin/bans-panel";
+import { Ban, Download, Search, Upload, Users } from "lucide-react";
+
+const ABUSE_SIGNAL_LABELS: Record<AbuseSignal, string> = {
+  shared_ip: "Shared IP",
+  plus_address: "Plus address",
+  missing_user_agent: "No user agent",
+};
+
+// Sort choices as offered in the UI, mapped onto the listing's sort and order
+const SORT_OPTIONS = {
+  position: { label: "Position", sort: "position", order: "asc" },
+  newest: { label: "Newest first", sort: "joinedAt", order: "desc" },
+  oldest: { label: "Oldest first", sort: "joinedAt", order: "asc" },
+} as const;
+
+type SortOption = keyof typeof SORT_OPTIONS;
+type FlagFilter = "any" | "true" | "false";
+
+const PAGE_SIZE = 50;
+
+function formatDateTime(date: string | Date) {
+  return new Date(date).toLocaleString();
+}
+
+export default function QueueTab({ drops, canOperate }: { drops: Drop[] | undefined; canOperate: boolean }) {
+  const [dropFilter, setDropFilter] = useState("all");
+  // Export, import or ban tools shown above the table
+  const [panel, setPanel] = useState<"export" | "import" | "bans" | null>(null);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [sort, setSort] = useState<SortOption>("position");
+  const [boosted, setBoosted] = useState<FlagFilter>("any");
+  const [notifications, setNotifications] = useState<FlagFilter>("any");
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Fall back to all drops once the filtered drop is deleted
+  useEffect(() => {
+    if (drops && dropFilter !== "all" && !drops.some((drop) => drop.id === dropFilter)) {
+      setDropFilter("all");
+    }
+  }, [drops, dropFilter]);
+
+  // Search once typing pauses rather than on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const params = new URLSearchParams({
+    sort: SORT_OPTIONS[sort].sort,
+    order: SORT_OPTIONS[sort].order,
+    limit: String(PAGE_SIZE),
+  });
+  if (dropFilter !== "all") params.set("dropId", dropFilter);
+  if (search) params.set("search", search);
+  if (boosted !== "any") params.set("boosted", boosted);
+  if (notifications !== "any") params.set("notifications", notifications);
+
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["/api/admin/queue", params.toString()],
+    queryFn: async ({ pageParam }) => {
+      const query = new URLSearchParams(params);
+      if (pageParam) query.set("cursor", pageParam);
+      const res = await fetch(`/api/admin/queue?${query}`, { credentials: "include" });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      return res.json() as Promise<QueueEntryPage>;
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    refetchInterval: 30000,
+  });
+
+  const entries = data?.pages.flatMap((page) => page.entries) ?? [];
+  const total = data?.pages[0]?.total ?? 0;
+
+  // Infinite scroll: fetch the next page as the end of the table comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((observed) => {
+      if (observed[0].isIntersecting && !isFetchingNextPage) fetchNextPage();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const dropName = (dropId: string) => {
+    return drops?.find((drop) => drop.id === dropId)?.name || "-";
+  };
+
+  return (
+    <Card className="bg-gray-900/50 backdrop-blur-sm border-gray-800">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center space-x-2">
+          <Users className="w-5 h-5" />
+          <span>Queue Entries</span>
+          <span className="text-sm text-gray-400 font-normal">
+            ({total} {search || boosted !== "any" || notifications !== "any" ? "matching" : "total"})
+          </span>
+        </CardTitle>
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="outline"
+            onClick={() => setPanel(panel === "export" ? null : "export")}
+            className={`border-gray-700 text-white hover:bg-gray-800 ${panel === "export" ? "bg-gray-800" : ""}`}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export
+          </Button>
+          {canOperate && (
+            <Button
+              variant="outline"
+              onClick={() => setPanel(panel === "import" ? null : "import")}
+              className={`border-gray-700 text-white hover:bg-gray-800 ${panel === "import" ? "bg-gray-800" : ""}`}
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => setPanel(panel === "bans" ? null : "bans")}
+            className={`border-gray-700 text-white hover:bg-gray-800 ${panel === "bans" ? "bg-gray-800" : ""}`}
+          >
+            <Ban className="w-4 h-4 mr-2" />
+            Bans
+          </Button>
+          <Select value={dropFilter} onValueChange={setDropFilter}>
+            <SelectTrigger className="w-64 bg-black border-gray-700 text-white">
+              <SelectValue placeholder="Filter by drop" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All drops</SelectItem>
+              {drops?.map((drop) => (
+                <SelectItem key={drop.id} value={drop.id}>
+                  {drop.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {panel === "export" && (
+          <QueueExportPanel dropId={dropFilter === "all" ? undefined : dropFilter} />
+        )}
+        {panel === "import" && canOperate && (
+          <QueueImportPanel
+            drops={drops || []}
+            defaultDropId={dropFilter === "all" ? undefined : dropFilter}
+          />
+        )}
+        {panel === "bans" && <BansPanel canOperate={canOperate} />}
+
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <div className="relative flex-1 min-w-64">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search email, phone or Instagram"
+              className="pl-9 bg-black border-gray-700 text-white"
+            />
+          </div>
+          <Select value={sort} onValueChange={(value) => setSort(value as SortOption)}>
+            <SelectTrigger className="w-40 bg-black border-gray-700 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(SORT_OPTIONS).map(([value, option]) => (
+                <SelectItem key={value} value={value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={boosted} onValueChange={(value) => setBoosted(value as FlagFilter)}>
+            <SelectTrigger className="w-40 bg-black border-gray-700 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any boost</SelectItem>
+              <SelectItem value="true">Boosted</SelectItem>
+              <SelectItem value="false">Not boosted</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={notifications} onValueChange={(value) => setNotifications(value as FlagFilter)}>
+            <SelectTrigger className="w-48 bg-black border-gray-700 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any notifications</SelectItem>
+              <SelectItem value="true">Notifications on</SelectItem>
+              <SelectItem value="false">Notifications off</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-gray-400">Loading queue entries...</div>
+        ) : entries.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left p-3 text-gray-400">Position</th>
+                  <th className="text-left p-3 text-gray-400">Drop</th>
+                  <th className="text-left p-3 text-gray-400">Email</th>
+                  <th className="text-left p-3 text-gray-400">Verified</th>
+                  <th className="text-left p-3 text-gray-400">Phone</th>
+                  <th className="text-left p-3 text-gray-400">Instagram</th>
+                  <th className="text-left p-3 text-gray-400">Notifications</th>
+                  <th className="text-left p-3 text-gray-400">Joined At</th>
+                  <th className="text-left p-3 text-gray-400">Access</th>
+                  <th className="text-left p-3 text-gray-400">Purchase</th>
+                  <th className="text-left p-3 text-gray-400">Signals</th>
+                  {canOperate && <th className="p-3" />}
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr key={entry.id} className="border-b border-gray-800">
+                    <td className={`p-3 font-semibold ${entry.tier === "waitlist" ? "text-yellow-400" : "text-blue-400"}`}>
+                      {entry.tier === "waitlist" ? `Waitlist #${entry.position}` : `#${entry.position}`}
+                    </td>
+                    <td className="p-3 text-gray-400">{dropName(entry.dropId)}</td>
+                    <td className="p-3 text-white">{entry.email}</td>
+                    <td className="p-3">
+                      <span
+                        className={`px-2 py-1 rounded-full text-xs ${
+                          entry.emailVerifiedAt
+                            ? "bg-green-600/20 text-green-400"
+                            : "bg-yellow-600/20 text-yellow-400"
+                        }`}
+                        title={entry.emailVerifiedAt ? `Confirmed ${formatDateTime(entry.emailVerifiedAt)}` : undefined}
+                      >
+                        {entry.emailVerifiedAt ? "Yes" : "Pending"}
+                      </span>
+                    </td>
+                    <td className="p-3 text-gray-400">
+                      {entry.phone || "-"}
+                    </td>
+                    <td className="p-3 text-gray-400">
+                      {entry.instagramUsername ? (
+                        <span className={entry.instagramBoostUsed ? "text-pink-400" : undefined} title={entry.instagramBoostUsed ? "Boosted" : undefined}>
+                          @{entry.instagramUsername}
+                        </span>
+                      ) : (
+                        "-"
+                      )}
+                    </td>
+                    <td className="p-3">
+                      <span
+                        className={`px-2 py-1 rounded-full text-xs ${
+                          entry.notifications
+                            ? "bg-green-600/20 text-green-400"
+                            : "bg-gray-600/20 text-gray-400"
+                        }`}
+                      >
+                        {entry.notifications ? "Yes" : "No"}
+                      </span>
+                    </td>
+                    <td className="p-3 text-gray-400">
+                      {formatDateTime(entry.joinedAt)}
+                    </td>
+                    <td className="p-3 text-gray-400">
+                      {entry.accessTokenRedeemedAt ? (
+                        <span className="text-green-400">Redeemed {formatDateTime(entry.accessTokenRedeemedAt)}</span>
+                      ) : entry.accessReleasedAt ? (
+                        <span className="text-red-400">Released {formatDateTime(entry.accessReleasedAt)}</span>
+                      ) : entry.accessTokenExpiresAt ? (
+                        <span className="text-yellow-400">Open until {formatDateTime(entry.accessTokenExpiresAt)}</span>
+                      ) : (
+                        "-"
+                      )}
+                    </td>
+                    <td className="p-3 text-gray-400">
+                      {entry.purchasedAt ? (
+                        <span className="text-green-400">Purchased {formatDateTime(entry.purchasedAt)}</span>
+                      ) : entry.shopifyCheckoutUrl ? (
+                        <span className="text-yellow-400">Checkout reserved</span>
+                      ) : (
+                        "-"
+                      )}
+                    </td>
+                    <td className="p-3" title={[entry.signupIp, entry.userAgent].filter(Boolean).join(" · ")}>
+                      {entry.abuseSignals.length > 0 ? (
+                        <div className="flex flex-wrap gap-1">
+                          {entry.abuseSignals.map((signal) => (
+                            <span key={signal} className="px-2 py-1 rounded-full text-xs bg-orange-600/20 text-orange-400 whitespace-nowrap">
+                              {ABUSE_SIGNAL_LABELS[signal]}
+                            </span>
+                          ))}
+                        </div>
+                      ) : (
+                        <span className="text-gray-500">-</span>
+                      )}
+                    </td>
+                    {canOperate && (
+                      <td className="p-3 text-right">
+                        <QueueEntryActions entry={entry} />
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div ref={loadMoreRef} className="text-center py-4 text-gray-500 text-sm">
+              {isFetchingNextPage ? "Loading more..." : hasNextPage ? "" : `Showing all ${entries.length}`}
+            </div>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-400">
+            {search || boosted !== "any" || notifications !== "any" ? "No entries match these filters." : "No queue entries yet."}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
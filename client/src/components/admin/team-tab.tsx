@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { adminRoles, type AdminRole } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Shield, Trash2, UserPlus } from "lucide-react";
+
+interface TeamMember {
+  id: string;
+  username: string;
+  role: AdminRole;
+}
+
+const roleDescriptions: Record<AdminRole, string> = {
+  viewer: "Can view drops, the queue and the audit log",
+  operator: "Can also create and edit drops and manage queue entries and bans",
+  owner: "Full access, including deletes, settings and the team",
+};
+
+export default function TeamTab({ currentAdminId }: { currentAdminId: string }) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<AdminRole>("viewer");
+  const { toast } = useToast();
+
+  const { data: members, isLoading } = useQuery<TeamMember[]>({
+    queryKey: ["/api/admin/users"],
+  });
+
+  const onMutationError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Something went wrong. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const refreshTeam = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/audit-logs"] });
+  };
+
+  const createMemberMutation = useMutation({
+    mutationFn: async (data: { username: string; password: string; role: AdminRole }) => {
+      const response = await apiRequest("POST", "/api/admin/users", data);
+      return response.json() as Promise<TeamMember>;
+    },
+    onSuccess: () => {
+      refreshTeam();
+      setUsername("");
+      setPassword("");
+      setRole("viewer");
+      toast({ title: "Admin added", description: "They can sign in now." });
+    },
+    onError: onMutationError("Failed to add admin"),
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: AdminRole }) => {
+      const response = await apiRequest("PUT", `/api/admin/users/${id}`, { role });
+      return response.json() as Promise<TeamMember>;
+    },
+    onSuccess: refreshTeam,
+    onError: onMutationError("Failed to change role"),
+  });
+
+  const deleteMemberMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/admin/users/${id}`);
+      return response.json();
+    },
+    onSuccess: refreshTeam,
+    onError: onMutationError("Failed to remove admin"),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMemberMutation.mutate({ username, password, role });
+  };
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-8">
+      <Card className="bg-gray-900/50 backdrop-blur-sm border-gray-800">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <UserPlus className="w-5 h-5" />
+            <span>Add Admin</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <Label htmlFor="newUsername" className="text-gray-300 mb-2 block">Username</Label>
+              <Input
+                id="newUsername"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className="bg-black border-gray-700 text-white"
+              />
+            </div>
+            <div>
+              <Label htmlFor="newPassword" className="text-gray-300 mb-2 block">
+                Password <span className="text-gray-500">(min. 8 characters)</span>
+              </Label>
+              <Input
+                id="newPassword"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="bg-black border-gray-700 text-white"
+              />
+            </div>
+            <div>
+              <Label className="text-gray-300 mb-2 block">Role</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as AdminRole)}>
+                <SelectTrigger className="bg-black border-gray-700 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {adminRoles.map((value) => (
+                    <SelectItem key={value} value={value}>{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-gray-500 mt-1">{roleDescriptions[role]}</p>
+            </div>
+            <Button
+              type="submit"
+              disabled={createMemberMutation.isPending}
+              className="w-full bg-blue-600 hover:bg-blue-700"
+            >
+              Add Admin
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-gray-900/50 backdrop-blur-sm border-gray-800">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Shield className="w-5 h-5" />
+            <span>Team</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8 text-gray-400">Loading team...</div>
+          ) : (
+            <div className="space-y-4">
+              {members?.map((member) => (
+                <div
+                  key={member.id}
+                  className="p-4 rounded-lg border bg-gray-800/50 border-gray-700 flex items-center justify-between"
+                >
+                  <div>
+                    <h3 className="font-semibold text-white">{member.username}</h3>
+                    <p className="text-sm text-gray-400">{roleDescriptions[member.role]}</p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Select
+                      value={member.role}
+                      disabled={member.id === currentAdminId}
+                      onValueChange={(value) => updateRoleMutation.mutate({ id: member.id, role: value as AdminRole })}
+                    >
+                      <SelectTrigger className="w-32 bg-black border-gray-700 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {adminRoles.map((value) => (
+                          <SelectItem key={value} value={value}>{value}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {member.id !== currentAdminId && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => deleteMemberMutation.mutate(member.id)}
+                        className="text-red-400 hover:text-red-300"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
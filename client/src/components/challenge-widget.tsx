@@ -0,0 +1,85 @@
+import { useEffect, useRef } from "react";
+
+export interface ChallengeConfig {
+  provider: "turnstile" | "hcaptcha";
+  siteKey: string;
+}
+
+// Turnstile and hCaptcha expose the same explicit-render API on their globals
+interface ChallengeApi {
+  render(container: HTMLElement, options: {
+    sitekey: string;
+    theme?: "dark" | "light";
+    callback: (token: string) => void;
+    "expired-callback"?: () => void;
+    "error-callback"?: () => void;
+  }): string;
+  remove(widgetId: string): void;
+}
+
+const SCRIPTS: Record<ChallengeConfig["provider"], { src: string; global: "turnstile" | "hcaptcha" }> = {
+  turnstile: { src: "https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit", global: "turnstile" },
+  hcaptcha: { src: "https://js.hcaptcha.com/1/api.js?render=explicit", global: "hcaptcha" },
+};
+
+const loadedScripts = new Map<string, Promise<ChallengeApi>>();
+
+function loadChallengeApi(provider: ChallengeConfig["provider"]): Promise<ChallengeApi> {
+  const { src, global } = SCRIPTS[provider];
+  let loading = loadedScripts.get(src);
+  if (!loading) {
+    loading = new Promise((resolve, reject) => {
+      const script = document.createElement("script");
+      script.src = src;
+      script.async = true;
+      script.onload = () => resolve((window as unknown as Record<string, ChallengeApi>)[global]);
+      script.onerror = () => {
+        loadedScripts.delete(src);
+        reject(new Error(`Failed to load ${provider}`));
+      };
+      document.head.appendChild(script);
+    });
+    loadedScripts.set(src, loading);
+  }
+  return loading;
+}
+
+interface ChallengeWidgetProps {
+  config: ChallengeConfig;
+  // Called with the response token, or null once it expires or errors
+  onToken: (token: string | null) => void;
+}
+
+// Bot check shown on the join form; remount (change its key) to get a fresh token after each attempt
+export function ChallengeWidget({ config, onToken }: ChallengeWidgetProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const onTokenRef = useRef(onToken);
+  onTokenRef.current = onToken;
+
+  useEffect(() => {
+    let api: ChallengeApi | undefined;
+    let widgetId: string | undefined;
+    let cancelled = false;
+
+    loadChallengeApi(config.provider)
+      .then((loaded) => {
+        if (cancelled || !containerRef.current) return;
+        api = loaded;
+        widgetId = loaded.render(containerRef.current, {
+          sitekey: config.siteKey,
+          theme: "dark",
+          callback: (token) => onTokenRef.current(token),
+          "expired-callback": () => onTokenRef.current(null),
+          "error-callback": () => onTokenRef.current(null),
+        });
+      })
+      .catch(() => onTokenRef.current(null));
+
+    return () => {
+      cancelled = true;
+      if (api && widgetId !== undefined) api.remove(widgetId);
+    };
+  }, [config.provider, config.siteKey]);
+
+  return <div ref={containerRef} className="flex justify-center" />;
+}
@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+
+// Feeds the queue page's react-query data from the server's event stream (/api/queue/events/:dropId).
+// Returns whether the stream is connected, so callers can keep polling while it isn't.
+export function useQueueStream(dropId: string | undefined, statusToken: string | null): boolean {
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    if (!dropId || typeof EventSource === "undefined") return;
+
+    const search = statusToken ? `?${new URLSearchParams({ token: statusToken }).toString()}` : "";
+    const source = new EventSource(`/api/queue/events/${encodeURIComponent(dropId)}${search}`);
+    const data = (event: Event) => JSON.parse((event as MessageEvent).data);
+
+    source.onopen = () => setConnected(true);
+    // EventSource reconnects on its own; until it does, polling takes over
+    source.onerror = () => setConnected(false);
+
+    source.addEventListener("stats", (event) => {
+      queryClient.setQueryData(["/api/queue/stats", dropId], data(event));
+    });
+    source.addEventListener("position", (event) => {
+      queryClient.setQueryData(["/api/queue/status", statusToken], data(event));
+    });
+    source.addEventListener("status", () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/drops/active"] });
+    });
+    // The entry expired or was removed; refetching its status surfaces the 404 to the page
+    source.addEventListener("removed", () => {
+      source.close();
+      setConnected(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/queue/status", statusToken] });
+    });
+
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [dropId, statusToken]);
+
+  return connected;
+}
@@ -2,7 +2,7 @@ import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertDropSchema, insertSettingsSchema, type InsertDrop, type Drop, type QueueEntry, type Settings, type InsertSettings } from "@shared/schema";
+import { insertDropSchema, insertSettingsSchema, dropStatusTransitions, type InsertDrop, type UpdateDrop, type DropStatus, type Drop, type Settings, type InsertSettings, type AdminRole } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -10,35 +10,99 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient, apiRequest } from "@/lib/queryClient";
-import { Plus, Trash2, Edit, Users, Clock, Settings as SettingsIcon, Instagram, Lock } from "lucide-react";
+import { queryClient, apiRequest, getQueryFn } from "@/lib/queryClient";
+import AuditLogTab from "@/components/admin/audit-log-tab";
+import TeamTab from "@/components/admin/team-tab";
+import BoostClaimsTab from "@/components/admin/boost-claims-tab";
+import QueueTab from "@/components/admin/queue-tab";
+import AnalyticsTab from "@/components/admin/analytics-tab";
+import { Plus, Trash2, Edit, Users, Clock, Settings as SettingsIcon, Instagram, Lock, LogOut } from "lucide-react";
+
+const DROP_STATUS_LABELS: Record<DropStatus, string> = {
+  scheduled: "Scheduled",
+  queue_open: "Queue Open",
+  live: "Live",
+  sold_out: "Sold Out",
+  closed: "Closed",
+};
+
+const DROP_STATUS_STYLES: Record<DropStatus, string> = {
+  scheduled: "bg-gray-600",
+  queue_open: "bg-blue-600",
+  live: "bg-green-600",
+  sold_out: "bg-red-600",
+  closed: "bg-gray-800 text-gray-400",
+};
+
+interface AdminSession {
+  id: string;
+  username: string;
+  role: AdminRole;
+}
 
 export default function Admin() {
   const [selectedDrop, setSelectedDrop] = useState<Drop | null>(null);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const { toast } = useToast();
 
   // All hooks must be called before any conditional returns
+  // Current admin session, null when signed out
+  const { data: admin, isLoading: adminLoading } = useQuery<AdminSession | null>({
+    queryKey: ["/api/admin/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+  const isAuthenticated = !!admin;
+  const canOperate = admin?.role === "operator" || admin?.role === "owner";
+  const isOwner = admin?.role === "owner";
+
   // Fetch all drops
   const { data: drops, isLoading: dropsLoading } = useQuery<Drop[]>({
     queryKey: ["/api/admin/drops"],
-    refetchInterval: 30000,
-  });
-
-  // Fetch all queue entries
-  const { data: queueEntries, isLoading: queueLoading } = useQuery<QueueEntry[]>({
-    queryKey: ["/api/admin/queue"],
+    enabled: isAuthenticated,
     refetchInterval: 30000,
   });
 
   // Fetch settings
   const { data: settings } = useQuery<Settings>({
     queryKey: ["/api/admin/settings"],
+    enabled: isAuthenticated,
     refetchInterval: 30000,
   });
 
+  // Login mutation
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: { username: string; password: string }) => {
+      const response = await apiRequest("POST", "/api/admin/login", credentials);
+      return response.json() as Promise<AdminSession>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/admin/me"], data);
+      setPassword("");
+    },
+    onError: () => {
+      toast({
+        title: "Access Denied",
+        description: "Invalid username or password. Please try again.",
+        variant: "destructive",
+      });
+      setPassword("");
+    },
+  });
+
+  // Logout mutation
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/admin/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/admin/me"], null);
+      queryClient.removeQueries({ predicate: (query) => query.queryKey[0] !== "/api/admin/me" });
+    },
+  });
+
   // Create drop mutation
   const createDropMutation = useMutation({
     mutationFn: async (data: InsertDrop) => {
@@ -47,6 +111,7 @@ export default function Admin() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/drops"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/audit-logs"] });
       toast({
         title: "Drop created successfully!",
         description: "The new drop has been added to the system.",
@@ -64,12 +129,13 @@ export default function Admin() {
 
   // Update drop mutation
   const updateDropMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: Partial<InsertDrop> }) => {
+    mutationFn: async ({ id, data }: { id: string; data: UpdateDrop }) => {
       const response = await apiRequest("PUT", `/api/admin/drops/${id}`, data);
       return response.json() as Promise<Drop>;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/drops"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/audit-logs"] });
       toast({
         title: "Drop updated successfully!",
         description: "The drop has been updated.",
@@ -93,6 +159,8 @@ export default function Admin() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/drops"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/audit-logs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/queue"] });
       toast({
         title: "Drop deleted successfully!",
         description: "The drop has been removed from the system.",
@@ -115,9 +183,10 @@ export default function Admin() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/audit-logs"] });
       toast({
         title: "Settings updated successfully!",
-        description: "Instagram boost settings have been saved.",
+        description: "Your settings have been saved.",
       });
     },
     onError: (error: any) => {
@@ -136,7 +205,16 @@ export default function Admin() {
       name: "",
       description: "",
       dropTime: new Date(),
+      queueOpensAt: null,
+      closesAt: null,
       maxQueueSize: 300,
+      waitlistEnabled: false,
+      accessWindowMinutes: 5,
+      emailVerificationMinutes: 30,
+      admissionBatchSize: 10,
+      admissionIntervalSeconds: 60,
+      shopifyProductId: "",
+      shopifyVariantId: "",
     },
   });
 
@@ -154,7 +232,16 @@ export default function Admin() {
       name: drop.name,
       description: drop.description || "",
       dropTime: new Date(drop.dropTime),
+      queueOpensAt: drop.queueOpensAt ? new Date(drop.queueOpensAt) : null,
+      closesAt: drop.closesAt ? new Date(drop.closesAt) : null,
       maxQueueSize: drop.maxQueueSize || 300,
+      waitlistEnabled: drop.waitlistEnabled,
+      accessWindowMinutes: drop.accessWindowMinutes,
+      emailVerificationMinutes: drop.emailVerificationMinutes,
+      admissionBatchSize: drop.admissionBatchSize,
+      admissionIntervalSeconds: drop.admissionIntervalSeconds,
+      shopifyProductId: drop.shopifyProductId || "",
+      shopifyVariantId: drop.shopifyVariantId || "",
     });
   };
 
@@ -164,7 +251,30 @@ export default function Admin() {
       name: "",
       description: "",
       dropTime: new Date(),
+      queueOpensAt: null,
+      closesAt: null,
       maxQueueSize: 300,
+      waitlistEnabled: false,
+      accessWindowMinutes: 5,
+      emailVerificationMinutes: 30,
+      admissionBatchSize: 10,
+      admissionIntervalSeconds: 60,
+      shopifyProductId: "",
+      shopifyVariantId: "",
+    });
+  };
+
+  const boostSize = settings?.instagramBoostSize ?? 100;
+
+  // Settings are saved as a whole, so merge the change into the current values
+  const saveSettings = (changes: Partial<InsertSettings>) => {
+    updateSettingsMutation.mutate({
+      instagramPostUrl: settings?.instagramPostUrl || null,
+      instagramBoostEnabled: settings?.instagramBoostEnabled || false,
+      instagramBoostSize: boostSize,
+      honestMode: settings?.honestMode ?? true,
+      boostManualReview: settings?.boostManualReview ?? true,
+      ...changes,
     });
   };
 
@@ -172,20 +282,19 @@ export default function Admin() {
     return new Date(date).toLocaleString();
   };
 
-  const handlePasswordSubmit = (e: React.FormEvent) => {
+  const handleLoginSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (password === "MiamiHeat123") {
-      setIsAuthenticated(true);
-    } else {
-      toast({
-        title: "Access Denied",
-        description: "Invalid password. Please try again.",
-        variant: "destructive",
-      });
-      setPassword("");
-    }
+    loginMutation.mutate({ username, password });
   };
 
+  if (adminLoading) {
+    return (
+      <div className="min-h-screen bg-black text-white flex items-center justify-center">
+        <div className="text-gray-400">Loading...</div>
+      </div>
+    );
+  }
+
   if (!isAuthenticated) {
     return (
       <div className="min-h-screen bg-black text-white flex items-center justify-center">
@@ -196,10 +305,23 @@ export default function Admin() {
                 <Lock className="w-8 h-8" />
               </div>
               <h2 className="text-2xl font-bold mb-2">Admin Access</h2>
-              <p className="text-gray-400">Enter password to continue</p>
+              <p className="text-gray-400">Sign in to continue</p>
             </div>
             
-            <form onSubmit={handlePasswordSubmit} className="space-y-6">
+            <form onSubmit={handleLoginSubmit} className="space-y-6">
+              <div>
+                <Label htmlFor="username" className="text-white">Username</Label>
+                <Input
+                  id="username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  className="bg-gray-800 border-gray-700 text-white"
+                  placeholder="Enter admin username"
+                  autoComplete="username"
+                  autoFocus
+                />
+              </div>
+
               <div>
                 <Label htmlFor="password" className="text-white">Password</Label>
                 <Input
@@ -209,12 +331,13 @@ export default function Admin() {
                   onChange={(e) => setPassword(e.target.value)}
                   className="bg-gray-800 border-gray-700 text-white"
                   placeholder="Enter admin password"
-                  autoFocus
+                  autoComplete="current-password"
                 />
               </div>
               
               <Button
                 type="submit"
+                disabled={loginMutation.isPending}
                 className="w-full bg-red-600 hover:bg-red-700"
               >
                 Access Admin Panel
@@ -236,13 +359,24 @@ export default function Admin() {
               <h1 className="text-2xl font-bold tracking-tight">LOCKS SOLD Admin</h1>
               <SettingsIcon className="w-6 h-6 text-blue-400" />
             </div>
-            <Button
-              variant="ghost"
-              onClick={() => window.location.href = '/'}
-              className="text-gray-400 hover:text-white"
-            >
-              Back to Queue
-            </Button>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-gray-400">{admin.username} ({admin.role})</span>
+              <Button
+                variant="ghost"
+                onClick={() => window.location.href = '/'}
+                className="text-gray-400 hover:text-white"
+              >
+                Back to Queue
+              </Button>
+              <Button
+                variant="ghost"
+                onClick={() => logoutMutation.mutate()}
+                className="text-gray-400 hover:text-white"
+              >
+                <LogOut className="w-4 h-4 mr-2" />
+                Sign Out
+              </Button>
+            </div>
           </div>
         </div>
       </header>
@@ -256,9 +390,23 @@ export default function Admin() {
             <TabsTrigger value="queue" className="data-[state=active]:bg-blue-600">
               Queue Entries
             </TabsTrigger>
+            <TabsTrigger value="analytics" className="data-[state=active]:bg-blue-600">
+              Analytics
+            </TabsTrigger>
+            <TabsTrigger value="boost-claims" className="data-[state=active]:bg-blue-600">
+              Boost Claims
+            </TabsTrigger>
             <TabsTrigger value="settings" className="data-[state=active]:bg-blue-600">
-              Instagram Settings
+              Settings
             </TabsTrigger>
+            <TabsTrigger value="audit" className="data-[state=active]:bg-blue-600">
+              Audit Log
+            </TabsTrigger>
+            {isOwner && (
+              <TabsTrigger value="team" className="data-[state=active]:bg-blue-600">
+                Team
+              </TabsTrigger>
+            )}
           </TabsList>
 
           {/* Drop Management */}
@@ -273,94 +421,269 @@ export default function Admin() {
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-                    <div>
-                      <Label htmlFor="name" className="text-gray-300 mb-2 block">
-                        Drop Name
-                      </Label>
-                      <Input
-                        id="name"
-                        placeholder="e.g., Summer Collection Drop"
-                        className="bg-black border-gray-700 text-white placeholder-gray-500"
-                        {...form.register("name")}
-                      />
-                      {form.formState.errors.name && (
-                        <p className="text-red-400 text-sm mt-1">
-                          {form.formState.errors.name.message}
+                  <form onSubmit={form.handleSubmit(onSubmit)}>
+                    <fieldset disabled={!canOperate} className="space-y-6">
+                      {!canOperate && (
+                        <p className="text-sm text-gray-400">
+                          Viewers can't create or edit drops.
                         </p>
                       )}
-                    </div>
+                      <div>
+                        <Label htmlFor="name" className="text-gray-300 mb-2 block">
+                          Drop Name
+                        </Label>
+                        <Input
+                          id="name"
+                          placeholder="e.g., Summer Collection Drop"
+                          className="bg-black border-gray-700 text-white placeholder-gray-500"
+                          {...form.register("name")}
+                        />
+                        {form.formState.errors.name && (
+                          <p className="text-red-400 text-sm mt-1">
+                            {form.formState.errors.name.message}
+                          </p>
+                        )}
+                      </div>
 
-                    <div>
-                      <Label htmlFor="description" className="text-gray-300 mb-2 block">
-                        Description <span className="text-gray-500">(Optional)</span>
-                      </Label>
-                      <Textarea
-                        id="description"
-                        placeholder="Brief description of the drop..."
-                        className="bg-black border-gray-700 text-white placeholder-gray-500"
-                        {...form.register("description")}
-                      />
-                    </div>
+                      <div>
+                        <Label htmlFor="description" className="text-gray-300 mb-2 block">
+                          Description <span className="text-gray-500">(Optional)</span>
+                        </Label>
+                        <Textarea
+                          id="description"
+                          placeholder="Brief description of the drop..."
+                          className="bg-black border-gray-700 text-white placeholder-gray-500"
+                          {...form.register("description")}
+                        />
+                      </div>
 
-                    <div>
-                      <Label htmlFor="dropTime" className="text-gray-300 mb-2 block">
-                        Drop Time
-                      </Label>
-                      <Input
-                        id="dropTime"
-                        type="datetime-local"
-                        className="bg-black border-gray-700 text-white"
-                        {...form.register("dropTime", {
-                          setValueAs: (v) => new Date(v),
-                        })}
-                      />
-                      {form.formState.errors.dropTime && (
-                        <p className="text-red-400 text-sm mt-1">
-                          {form.formState.errors.dropTime.message}
-                        </p>
-                      )}
-                    </div>
+                      <div>
+                        <Label htmlFor="dropTime" className="text-gray-300 mb-2 block">
+                          Drop Time
+                        </Label>
+                        <Input
+                          id="dropTime"
+                          type="datetime-local"
+                          className="bg-black border-gray-700 text-white"
+                          {...form.register("dropTime", {
+                            setValueAs: (v) => new Date(v),
+                          })}
+                        />
+                        {form.formState.errors.dropTime && (
+                          <p className="text-red-400 text-sm mt-1">
+                            {form.formState.errors.dropTime.message}
+                          </p>
+                        )}
+                      </div>
 
-                    <div>
-                      <Label htmlFor="maxQueueSize" className="text-gray-300 mb-2 block">
-                        Max Queue Size
-                      </Label>
-                      <Input
-                        id="maxQueueSize"
-                        type="number"
-                        min="1"
-                        className="bg-black border-gray-700 text-white"
-                        {...form.register("maxQueueSize", {
-                          setValueAs: (v) => parseInt(v),
-                        })}
-                      />
-                      {form.formState.errors.maxQueueSize && (
-                        <p className="text-red-400 text-sm mt-1">
-                          {form.formState.errors.maxQueueSize.message}
-                        </p>
-                      )}
-                    </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <Label htmlFor="queueOpensAt" className="text-gray-300 mb-2 block">
+                            Queue Opens <span className="text-gray-500">(Optional)</span>
+                          </Label>
+                          <Input
+                            id="queueOpensAt"
+                            type="datetime-local"
+                            className="bg-black border-gray-700 text-white"
+                            {...form.register("queueOpensAt", {
+                              setValueAs: (v) => v ? new Date(v) : null,
+                            })}
+                          />
+                          {form.formState.errors.queueOpensAt && (
+                            <p className="text-red-400 text-sm mt-1">
+                              {form.formState.errors.queueOpensAt.message}
+                            </p>
+                          )}
+                        </div>
+                        <div>
+                          <Label htmlFor="closesAt" className="text-gray-300 mb-2 block">
+                            Drop Closes <span className="text-gray-500">(Optional)</span>
+                          </Label>
+                          <Input
+                            id="closesAt"
+                            type="datetime-local"
+                            className="bg-black border-gray-700 text-white"
+                            {...form.register("closesAt", {
+                              setValueAs: (v) => v ? new Date(v) : null,
+                            })}
+                          />
+                          {form.formState.errors.closesAt && (
+                            <p className="text-red-400 text-sm mt-1">
+                              {form.formState.errors.closesAt.message}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+
+                      <div>
+                        <Label htmlFor="maxQueueSize" className="text-gray-300 mb-2 block">
+                          Max Queue Size
+                        </Label>
+                        <Input
+                          id="maxQueueSize"
+                          type="number"
+                          min="1"
+                          className="bg-black border-gray-700 text-white"
+                          {...form.register("maxQueueSize", {
+                            setValueAs: (v) => parseInt(v),
+                          })}
+                        />
+                        {form.formState.errors.maxQueueSize && (
+                          <p className="text-red-400 text-sm mt-1">
+                            {form.formState.errors.maxQueueSize.message}
+                          </p>
+                        )}
+                      </div>
+
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          id="waitlistEnabled"
+                          checked={form.watch("waitlistEnabled")}
+                          onCheckedChange={(checked) => form.setValue("waitlistEnabled", checked)}
+                        />
+                        <Label htmlFor="waitlistEnabled" className="text-gray-300">
+                          Waitlist sign-ups once the queue is full
+                        </Label>
+                      </div>
+
+                      <div>
+                        <Label htmlFor="accessWindowMinutes" className="text-gray-300 mb-2 block">
+                          Reserved Access Window (minutes)
+                        </Label>
+                        <Input
+                          id="accessWindowMinutes"
+                          type="number"
+                          min="1"
+                          className="bg-black border-gray-700 text-white"
+                          {...form.register("accessWindowMinutes", {
+                            setValueAs: (v) => parseInt(v),
+                          })}
+                        />
+                        {form.formState.errors.accessWindowMinutes && (
+                          <p className="text-red-400 text-sm mt-1">
+                            {form.formState.errors.accessWindowMinutes.message}
+                          </p>
+                        )}
+                      </div>
+
+                      <div>
+                        <Label htmlFor="emailVerificationMinutes" className="text-gray-300 mb-2 block">
+                          Time to Confirm Email (minutes)
+                        </Label>
+                        <Input
+                          id="emailVerificationMinutes"
+                          type="number"
+                          min="1"
+                          className="bg-black border-gray-700 text-white"
+                          {...form.register("emailVerificationMinutes", {
+                            setValueAs: (v) => parseInt(v),
+                          })}
+                        />
+                        {form.formState.errors.emailVerificationMinutes && (
+                          <p className="text-red-400 text-sm mt-1">
+                            {form.formState.errors.emailVerificationMinutes.message}
+                          </p>
+                        )}
+                      </div>
 
-                    <div className="flex space-x-3">
-                      <Button
-                        type="submit"
-                        disabled={createDropMutation.isPending || updateDropMutation.isPending}
-                        className="flex-1 bg-blue-600 hover:bg-blue-700"
-                      >
-                        {selectedDrop ? "Update Drop" : "Create Drop"}
-                      </Button>
-                      {selectedDrop && (
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <Label htmlFor="admissionBatchSize" className="text-gray-300 mb-2 block">
+                            People per Wave
+                          </Label>
+                          <Input
+                            id="admissionBatchSize"
+                            type="number"
+                            min="1"
+                            className="bg-black border-gray-700 text-white"
+                            {...form.register("admissionBatchSize", {
+                              setValueAs: (v) => parseInt(v),
+                            })}
+                          />
+                          {form.formState.errors.admissionBatchSize && (
+                            <p className="text-red-400 text-sm mt-1">
+                              {form.formState.errors.admissionBatchSize.message}
+                            </p>
+                          )}
+                        </div>
+                        <div>
+                          <Label htmlFor="admissionIntervalSeconds" className="text-gray-300 mb-2 block">
+                            Seconds Between Waves
+                          </Label>
+                          <Input
+                            id="admissionIntervalSeconds"
+                            type="number"
+                            min="5"
+                            className="bg-black border-gray-700 text-white"
+                            {...form.register("admissionIntervalSeconds", {
+                              setValueAs: (v) => parseInt(v),
+                            })}
+                          />
+                          {form.formState.errors.admissionIntervalSeconds && (
+                            <p className="text-red-400 text-sm mt-1">
+                              {form.formState.errors.admissionIntervalSeconds.message}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <Label htmlFor="shopifyProductId" className="text-gray-300 mb-2 block">
+                            Shopify Product ID <span className="text-gray-500">(Optional)</span>
+                          </Label>
+                          <Input
+                            id="shopifyProductId"
+                            inputMode="numeric"
+                            placeholder="e.g., 7982341234"
+                            className="bg-black border-gray-700 text-white placeholder-gray-500"
+                            {...form.register("shopifyProductId")}
+                          />
+                          {form.formState.errors.shopifyProductId && (
+                            <p className="text-red-400 text-sm mt-1">
+                              {form.formState.errors.shopifyProductId.message}
+                            </p>
+                          )}
+                        </div>
+                        <div>
+                          <Label htmlFor="shopifyVariantId" className="text-gray-300 mb-2 block">
+                            Shopify Variant ID <span className="text-gray-500">(Optional)</span>
+                          </Label>
+                          <Input
+                            id="shopifyVariantId"
+                            inputMode="numeric"
+                            placeholder="e.g., 43981234567"
+                            className="bg-black border-gray-700 text-white placeholder-gray-500"
+                            {...form.register("shopifyVariantId")}
+                          />
+                          {form.formState.errors.shopifyVariantId && (
+                            <p className="text-red-400 text-sm mt-1">
+                              {form.formState.errors.shopifyVariantId.message}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="flex space-x-3">
                         <Button
-                          type="button"
-                          variant="ghost"
-                          onClick={handleCancelEdit}
-                          className="text-gray-400 hover:text-white"
+                          type="submit"
+                          disabled={createDropMutation.isPending || updateDropMutation.isPending}
+                          className="flex-1 bg-blue-600 hover:bg-blue-700"
                         >
-                          Cancel
+                          {selectedDrop ? "Update Drop" : "Create Drop"}
                         </Button>
-                      )}
-                    </div>
+                        {selectedDrop && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            onClick={handleCancelEdit}
+                            className="text-gray-400 hover:text-white"
+                          >
+                            Cancel
+                          </Button>
+                        )}
+                      </div>
+                    </fieldset>
                   </form>
                 </CardContent>
               </Card>
@@ -400,29 +723,60 @@ export default function Admin() {
                                   Active
                                 </span>
                               )}
-                              <Button
-                                size="sm"
-                                variant="ghost"
-                                onClick={() => handleEdit(drop)}
-                                className="text-blue-400 hover:text-blue-300"
-                              >
-                                <Edit className="w-4 h-4" />
-                              </Button>
-                              <Button
-                                size="sm"
-                                variant="ghost"
-                                onClick={() => deleteDropMutation.mutate(drop.id)}
-                                className="text-red-400 hover:text-red-300"
-                              >
-                                <Trash2 className="w-4 h-4" />
-                              </Button>
+                              <span className={`px-2 py-1 text-xs font-semibold rounded-full ${DROP_STATUS_STYLES[drop.status]}`}>
+                                {DROP_STATUS_LABELS[drop.status]}
+                              </span>
+                              {canOperate && (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => handleEdit(drop)}
+                                  className="text-blue-400 hover:text-blue-300"
+                                >
+                                  <Edit className="w-4 h-4" />
+                                </Button>
+                              )}
+                              {isOwner && (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => deleteDropMutation.mutate(drop.id)}
+                                  className="text-red-400 hover:text-red-300"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              )}
                             </div>
                           </div>
                           <div className="text-sm text-gray-400 space-y-1">
+                            {drop.queueOpensAt && <p>Queue Opens: {formatDateTime(drop.queueOpensAt)}</p>}
                             <p>Drop Time: {formatDateTime(drop.dropTime)}</p>
-                            <p>Max Queue: {drop.maxQueueSize}</p>
+                            {drop.closesAt && <p>Closes: {formatDateTime(drop.closesAt)}</p>}
+                            <p>Max Queue: {drop.maxQueueSize}{drop.waitlistEnabled && " + waitlist"}</p>
+                            <p>Access Window: {drop.accessWindowMinutes} min</p>
+                            <p>Email Confirmation: {drop.emailVerificationMinutes} min</p>
+                            <p>Admission: {drop.admissionBatchSize} every {drop.admissionIntervalSeconds}s</p>
+                            {drop.shopifyVariantId && (
+                              <p>Shopify: variant {drop.shopifyVariantId}{drop.shopifyProductId && ` of product ${drop.shopifyProductId}`}</p>
+                            )}
                             <p>Created: {formatDateTime(drop.createdAt)}</p>
                           </div>
+                          {canOperate && dropStatusTransitions[drop.status].length > 0 && (
+                            <div className="flex flex-wrap gap-2 mt-3">
+                              {dropStatusTransitions[drop.status].map((status) => (
+                                <Button
+                                  key={status}
+                                  size="sm"
+                                  variant="outline"
+                                  disabled={updateDropMutation.isPending}
+                                  onClick={() => updateDropMutation.mutate({ id: drop.id, data: { status } })}
+                                  className="border-gray-600 text-gray-300 hover:bg-gray-800"
+                                >
+                                  Mark {DROP_STATUS_LABELS[status]}
+                                </Button>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -438,71 +792,43 @@ export default function Admin() {
 
           {/* Queue Entries */}
           <TabsContent value="queue">
+            <QueueTab drops={drops} canOperate={canOperate} />
+          </TabsContent>
+
+          {/* Analytics */}
+          <TabsContent value="analytics">
+            <AnalyticsTab />
+          </TabsContent>
+
+          {/* Settings */}
+          <TabsContent value="settings" className="space-y-8">
             <Card className="bg-gray-900/50 backdrop-blur-sm border-gray-800">
               <CardHeader>
                 <CardTitle className="flex items-center space-x-2">
                   <Users className="w-5 h-5" />
-                  <span>Queue Entries</span>
-                  <span className="text-sm text-gray-400 font-normal">
-                    ({queueEntries?.length || 0} total)
-                  </span>
+                  <span>Queue Display</span>
                 </CardTitle>
               </CardHeader>
-              <CardContent>
-                {queueLoading ? (
-                  <div className="text-center py-8 text-gray-400">Loading queue entries...</div>
-                ) : queueEntries && queueEntries.length > 0 ? (
-                  <div className="overflow-x-auto">
-                    <table className="w-full text-sm">
-                      <thead>
-                        <tr className="border-b border-gray-700">
-                          <th className="text-left p-3 text-gray-400">Position</th>
-                          <th className="text-left p-3 text-gray-400">Email</th>
-                          <th className="text-left p-3 text-gray-400">Phone</th>
-                          <th className="text-left p-3 text-gray-400">Notifications</th>
-                          <th className="text-left p-3 text-gray-400">Joined At</th>
-                        </tr>
-                      </thead>
-                      <tbody>
-                        {queueEntries.map((entry) => (
-                          <tr key={entry.id} className="border-b border-gray-800">
-                            <td className="p-3 font-semibold text-blue-400">
-                              #{entry.position}
-                            </td>
-                            <td className="p-3 text-white">{entry.email}</td>
-                            <td className="p-3 text-gray-400">
-                              {entry.phone || "-"}
-                            </td>
-                            <td className="p-3">
-                              <span
-                                className={`px-2 py-1 rounded-full text-xs ${
-                                  entry.notifications
-                                    ? "bg-green-600/20 text-green-400"
-                                    : "bg-gray-600/20 text-gray-400"
-                                }`}
-                              >
-                                {entry.notifications ? "Yes" : "No"}
-                              </span>
-                            </td>
-                            <td className="p-3 text-gray-400">
-                              {formatDateTime(entry.joinedAt)}
-                            </td>
-                          </tr>
-                        ))}
-                      </tbody>
-                    </table>
-                  </div>
-                ) : (
-                  <div className="text-center py-8 text-gray-400">
-                    No queue entries yet.
-                  </div>
-                )}
+              <CardContent className="space-y-4">
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="honestMode"
+                    checked={settings?.honestMode ?? true}
+                    disabled={!isOwner}
+                    onCheckedChange={(checked) => saveSettings({ honestMode: checked })}
+                  />
+                  <Label htmlFor="honestMode" className="text-white">
+                    Honest mode
+                  </Label>
+                </div>
+                <p className="text-sm text-gray-400">
+                  {settings?.honestMode ?? true
+                    ? "Queue size, positions and the live queue list on the public page reflect only real sign-ups."
+                    : "The public page adds a mock base of 283 people, sample entries, simulated growth before the drop and a made-up typical sellout time."}
+                </p>
               </CardContent>
             </Card>
-          </TabsContent>
 
-          {/* Instagram Settings */}
-          <TabsContent value="settings">
             <Card className="bg-gray-900/50 backdrop-blur-sm border-gray-800">
               <CardHeader>
                 <CardTitle className="flex items-center space-x-2">
@@ -520,12 +846,8 @@ export default function Admin() {
                         type="url"
                         placeholder="https://instagram.com/p/..."
                         value={settings?.instagramPostUrl || ""}
-                        onChange={(e) => {
-                          updateSettingsMutation.mutate({
-                            instagramPostUrl: e.target.value,
-                            instagramBoostEnabled: settings?.instagramBoostEnabled || false
-                          });
-                        }}
+                        disabled={!isOwner}
+                        onChange={(e) => saveSettings({ instagramPostUrl: e.target.value || null })}
                         className="bg-gray-800 border-gray-700 text-white"
                       />
                     </div>
@@ -534,15 +856,41 @@ export default function Admin() {
                       <Switch
                         id="boostEnabled"
                         checked={settings?.instagramBoostEnabled || false}
-                        onCheckedChange={(checked) => {
-                          updateSettingsMutation.mutate({
-                            instagramPostUrl: settings?.instagramPostUrl || null,
-                            instagramBoostEnabled: checked
-                          });
-                        }}
+                        disabled={!isOwner}
+                        onCheckedChange={(checked) => saveSettings({ instagramBoostEnabled: checked })}
                       />
                       <Label htmlFor="boostEnabled" className="text-white">
-                        Enable Instagram Boost (100 spots)
+                        Enable Instagram Boost ({boostSize} spots)
+                      </Label>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="boostSize" className="text-white">Boost Size (spots moved up)</Label>
+                      <Input
+                        id="boostSize"
+                        type="number"
+                        min="1"
+                        value={boostSize}
+                        disabled={!isOwner}
+                        onChange={(e) => {
+                          const value = parseInt(e.target.value);
+                          if (value >= 1) {
+                            saveSettings({ instagramBoostSize: value });
+                          }
+                        }}
+                        className="bg-gray-800 border-gray-700 text-white"
+                      />
+                    </div>
+
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="boostManualReview"
+                        checked={settings?.boostManualReview ?? true}
+                        disabled={!isOwner}
+                        onCheckedChange={(checked) => saveSettings({ boostManualReview: checked })}
+                      />
+                      <Label htmlFor="boostManualReview" className="text-white">
+                        Require moderator review
                       </Label>
                     </div>
                   </div>
@@ -554,7 +902,9 @@ export default function Admin() {
                       <li>• Enable the boost feature</li>
                       <li>• Users share your post to their story</li>
                       <li>• They provide their Instagram username</li>
-                      <li>• Move up 100 spots instantly</li>
+                      <li>• {settings?.boostManualReview ?? true
+                        ? `A moderator approves the claim and they move up ${boostSize} spots`
+                        : `Move up ${boostSize} spots once the share is verified`}</li>
                     </ul>
                   </div>
                 </div>
@@ -579,6 +929,23 @@ export default function Admin() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Boost Claims */}
+          <TabsContent value="boost-claims">
+            <BoostClaimsTab canOperate={canOperate} />
+          </TabsContent>
+
+          {/* Audit Log */}
+          <TabsContent value="audit">
+            <AuditLogTab />
+          </TabsContent>
+
+          {/* Team */}
+          {isOwner && (
+            <TabsContent value="team">
+              <TeamTab currentAdminId={admin.id} />
+            </TabsContent>
+          )}
         </Tabs>
       </main>
     </div>
@@ -1,81 +1,164 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertQueueEntrySchema, type InsertQueueEntry } from "@shared/schema";
+import { insertQueueEntrySchema, isDropJoinable, type InsertQueueEntry, type DropStatus, type QueueTier } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent } from "@/components/ui/card";
+import { ChallengeWidget, type ChallengeConfig } from "@/components/challenge-widget";
 import { useToast } from "@/hooks/use-toast";
+import { useQueueStream } from "@/hooks/use-queue-stream";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Bell, Users, Clock, ShoppingCart, UserPlus, Ticket, Check, Flame, Instagram, ExternalLink } from "lucide-react";
 
+interface ActiveDrop {
+  id: string;
+  name: string;
+  description?: string;
+  dropTime: string;
+  isActive: boolean;
+  waitlistEnabled: boolean;
+  status: DropStatus;
+  queueOpensAt: string | null;
+  closesAt: string | null;
+  maxQueueSize: number;
+  accessWindowMinutes: number;
+}
+
 interface QueueStats {
   totalSize: number;
+  waitlistSize: number;
+  isFull: boolean;
   topEntries: Array<{
     position: string;
     email: string;
     joinedAt: string;
   }>;
-  activeDrop?: {
-    id: string;
-    name: string;
-    description?: string;
-    dropTime: string;
-    isActive: boolean;
-    maxQueueSize: number;
-  };
+  drop: ActiveDrop;
 }
 
 interface JoinQueueResponse {
   id: string;
+  dropId: string;
+  tier: QueueTier;
   position: number;
   email: string;
+  statusToken: string;
+  emailVerified: boolean;
+  verifyBy: string;
   estimatedWaitTime: number;
 }
 
+interface InstagramVerifyResponse {
+  status: "approved" | "pending" | "rejected";
+  message: string;
+  newPosition?: number;
+  positionsSkipped?: number;
+}
+
 interface PositionResponse {
+  dropId: string;
+  tier: QueueTier;
   position: number;
   email: string;
   estimatedWaitTime: number;
   peopleAhead: number;
+  admittedAt: string | null;
+  emailVerified: boolean;
+  verifyBy: string | null;
+  boostStatus: "none" | "pending" | "approved" | "rejected";
+  accessStatus: "waiting" | "open" | "redeemed" | "released";
+  accessExpiresAt: string | null;
 }
 
+// Header badge, countdown heading and the message shown instead of the join form, per drop status
+const DROP_STATUS_COPY: Record<DropStatus, { badge: string; countdown: string | null; closedTitle?: string; closedMessage?: string }> = {
+  scheduled: {
+    badge: "Coming Soon",
+    countdown: "Queue opens in",
+    closedTitle: "Queue Not Open Yet",
+    closedMessage: "Sign-ups open when the countdown ends. Check back then to hold your spot.",
+  },
+  queue_open: { badge: "Dropping Soon!", countdown: "Drop begins in" },
+  live: { badge: "Live Now", countdown: null },
+  sold_out: {
+    badge: "Sold Out",
+    countdown: null,
+    closedTitle: "Sold Out",
+    closedMessage: "This drop sold out. Follow us on Instagram so you don't miss the next one.",
+  },
+  closed: {
+    badge: "Drop Ended",
+    countdown: null,
+    closedTitle: "Drop Ended",
+    closedMessage: "This drop has closed. Follow us on Instagram so you don't miss the next one.",
+  },
+};
+
+// Remembers the visitor's status token so a refresh (or a later visit) shows their place in line
+const STATUS_TOKEN_KEY = "locks-sold:status-token";
+
+// Also rendered at /status/:token, the private status link from the join response and our emails
 export default function Home() {
+  const params = useParams<{ token?: string }>();
+  const [location, setLocation] = useLocation();
   const [timeLeft, setTimeLeft] = useState({
     days: 2,
     hours: 14,
     minutes: 35,
     seconds: 42,
   });
-  const [joinedQueue, setJoinedQueue] = useState(false);
-  const [userEmail, setUserEmail] = useState("");
-  const [hasSharedPost, setHasSharedPost] = useState(false);
+  const [statusToken, setStatusToken] = useState<string | null>(() => params.token ?? localStorage.getItem(STATUS_TOKEN_KEY));
+  const joinedQueue = !!statusToken;
   const [instagramUsername, setInstagramUsername] = useState("");
   const [showUsernameInput, setShowUsernameInput] = useState(false);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  // Bumped to remount the challenge widget, since each token can only be checked once
+  const [challengeKey, setChallengeKey] = useState(0);
   const { toast } = useToast();
 
   // Fetch Instagram settings
-  const { data: instagramSettings } = useQuery<{ instagramPostUrl: string | null; instagramBoostEnabled: boolean }>({
-    queryKey: ["/api/admin/settings"],
+  const { data: instagramSettings } = useQuery<{ instagramPostUrl: string | null; instagramBoostEnabled: boolean; instagramBoostSize: number; honestMode: boolean; challenge: ChallengeConfig | null }>({
+    queryKey: ["/api/settings"],
+    refetchInterval: 60000,
+  });
+  const boostSize = instagramSettings?.instagramBoostSize ?? 100;
+  // Honest mode hides the made-up sellout time along with the simulated queue figures
+  const honestMode = instagramSettings?.honestMode ?? true;
+  const challenge = instagramSettings?.challenge ?? null;
+
+  // Fetch the drop this page is queueing for
+  const { data: activeDrop } = useQuery<ActiveDrop>({
+    queryKey: ["/api/drops/active"],
     refetchInterval: 60000,
   });
+  const windowMinutes = activeDrop?.accessWindowMinutes ?? 5;
+  const dropStatus = activeDrop?.status ?? "queue_open";
+  const statusCopy = DROP_STATUS_COPY[dropStatus];
+  const canJoin = isDropJoinable(dropStatus);
 
-  // Fetch queue stats
+  // Live updates for stats and the user's position; polling only runs while the stream is down
+  const streaming = useQueueStream(activeDrop?.id, statusToken);
+
+  // Fetch queue stats for the active drop
   const { data: queueStats, isLoading: statsLoading } = useQuery<QueueStats>({
-    queryKey: ["/api/queue/stats"],
-    refetchInterval: 30000, // Refetch every 30 seconds
+    queryKey: ["/api/queue/stats", activeDrop?.id],
+    enabled: !!activeDrop,
+    refetchInterval: streaming ? false : 30000, // Refetch every 30 seconds
   });
 
   // Countdown timer - calculate from active drop
   useEffect(() => {
     const timer = setInterval(() => {
-      if (queueStats?.activeDrop) {
+      if (activeDrop) {
         const now = Date.now();
-        const dropTime = new Date(queueStats.activeDrop.dropTime).getTime();
-        const timeLeft = Math.max(0, dropTime - now);
+        // Scheduled drops count down to the queue opening, the rest to the drop itself
+        const target = activeDrop.status === "scheduled" && activeDrop.queueOpensAt ? activeDrop.queueOpensAt : activeDrop.dropTime;
+        const timeLeft = Math.max(0, new Date(target).getTime() - now);
         
         const days = Math.floor(timeLeft / (1000 * 60 * 60 * 24));
         const hours = Math.floor((timeLeft % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
@@ -87,28 +170,93 @@ export default function Home() {
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [queueStats?.activeDrop]);
+  }, [activeDrop]);
+
+  // Opening a status link makes it this browser's remembered entry
+  useEffect(() => {
+    if (params.token) {
+      localStorage.setItem(STATUS_TOKEN_KEY, params.token);
+      setStatusToken(params.token);
+    }
+  }, [params.token]);
+
+  // The confirmation link lands on the status page with the outcome in `verification`
+  useEffect(() => {
+    const verification = new URLSearchParams(window.location.search).get("verification");
+    if (verification === "confirmed") {
+      toast({ title: "Email confirmed", description: "Your spot in line is locked in." });
+    } else if (verification === "expired" || verification === "invalid") {
+      toast({
+        title: "Confirmation link didn't work",
+        description: verification === "expired"
+          ? "The link expired and the spot was released. Join again to get a new one."
+          : "That link is invalid. Use the latest email we sent you.",
+        variant: "destructive",
+      });
+    }
+
+    // Drop the outcome from the address so a refresh doesn't show the toast again
+    if (verification !== null) {
+      const url = new URL(window.location.href);
+      url.searchParams.delete("verification");
+      window.history.replaceState(window.history.state, "", url);
+    }
+  }, []);
 
   // Fetch user position if joined
-  const { data: userPosition } = useQuery<PositionResponse>({
-    queryKey: ["/api/queue/position", userEmail],
-    enabled: joinedQueue && !!userEmail,
-    refetchInterval: 30000,
+  const { data: userPosition, isError: positionNotFound } = useQuery<PositionResponse>({
+    queryKey: ["/api/queue/status", statusToken],
+    enabled: joinedQueue,
+    refetchInterval: streaming ? false : 30000,
+    retry: false,
   });
+  const userEmail = userPosition?.email ?? "";
+
+  // The remembered token outlives its drop; an entry in an earlier drop mustn't keep anyone from joining this one
+  const entryFromOtherDrop = !!userPosition && !!activeDrop && userPosition.dropId !== activeDrop.id;
+
+  // e.g. a status link for an entry that expired, was removed or belongs to a past drop: forget it and show the join form again
+  useEffect(() => {
+    if (positionNotFound || entryFromOtherDrop) {
+      localStorage.removeItem(STATUS_TOKEN_KEY);
+      setStatusToken(null);
+      if (location !== "/") setLocation("/");
+    }
+  }, [positionNotFound, entryFromOtherDrop]);
+  const onWaitlist = userPosition?.tier === "waitlist";
+
+  // Sign-ups go to the waitlist once the queue is full, if the drop has one
+  const queueFull = !!queueStats?.isFull;
+  const joinClosed = !canJoin
+    ? { title: statusCopy.closedTitle, message: statusCopy.closedMessage }
+    : queueFull && !activeDrop?.waitlistEnabled
+      ? { title: "Queue Full", message: "Every spot in this queue is taken. Follow us on Instagram so you don't miss the next drop." }
+      : null;
+  const hasSharedPost = userPosition?.boostStatus === "approved";
+  const boostPending = userPosition?.boostStatus === "pending";
+  const boostRejected = userPosition?.boostStatus === "rejected";
 
   // Join queue mutation
   const joinQueueMutation = useMutation({
     mutationFn: async (data: InsertQueueEntry) => {
-      const response = await apiRequest("POST", "/api/queue/join", data);
+      const response = await apiRequest("POST", "/api/queue/join", { ...data, dropId: activeDrop?.id, challengeToken: challengeToken ?? undefined });
       return response.json() as Promise<JoinQueueResponse>;
     },
+    onSettled: () => {
+      setChallengeToken(null);
+      setChallengeKey(key => key + 1);
+    },
     onSuccess: (data) => {
-      setJoinedQueue(true);
-      setUserEmail(data.email);
+      localStorage.setItem(STATUS_TOKEN_KEY, data.statusToken);
+      setStatusToken(data.statusToken);
+      // Puts the private status link in the address bar, ready to bookmark
+      setLocation(`/status/${encodeURIComponent(data.statusToken)}`);
       queryClient.invalidateQueries({ queryKey: ["/api/queue/stats"] });
       toast({
-        title: "Successfully joined queue!",
-        description: `You're position ${data.position} in line.`,
+        title: "Check your email to keep your spot",
+        description: `${data.tier === "waitlist"
+          ? `The queue is full, so you're #${data.position} on the waitlist.`
+          : `You're position ${data.position} in line.`} Confirm your email by ${new Date(data.verifyBy).toLocaleTimeString()} or the spot is released.`,
       });
     },
     onError: (error: any) => {
@@ -122,19 +270,33 @@ export default function Home() {
 
   // Instagram verification mutation
   const verifyInstagramMutation = useMutation({
-    mutationFn: async ({ email, instagramUsername }: { email: string; instagramUsername: string }) => {
-      // Add 2-3 second delay to simulate verification checking
-      await new Promise(resolve => setTimeout(resolve, 2500));
-      const response = await apiRequest("POST", "/api/queue/instagram-verify", { email, instagramUsername });
-      return response.json();
+    mutationFn: async ({ instagramUsername }: { instagramUsername: string }) => {
+      const response = await apiRequest("POST", "/api/queue/instagram-verify", { token: statusToken, instagramUsername });
+      return response.json() as Promise<InstagramVerifyResponse>;
     },
-    onSuccess: (data: any) => {
-      setHasSharedPost(true);
+    onSuccess: (data) => {
+      if (data.status === "rejected") {
+        toast({
+          title: "Share not found",
+          description: data.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
       setShowUsernameInput(false);
-      queryClient.invalidateQueries({ queryKey: ["/api/queue/position", userEmail] });
+      queryClient.invalidateQueries({ queryKey: ["/api/queue/status", statusToken] });
+      if (data.status === "pending") {
+        toast({
+          title: "Boost pending review",
+          description: data.message,
+        });
+        return;
+      }
+
       queryClient.invalidateQueries({ queryKey: ["/api/queue/stats"] });
       toast({
-        title: data.message || "Amazing! You moved up 100 spots!",
+        title: data.message || `Amazing! You moved up ${boostSize} spots!`,
         description: "Thanks for sharing! Your new position is updated above.",
       });
     },
@@ -154,6 +316,7 @@ export default function Home() {
       email: "",
       phone: "",
       notifications: false,
+      smsConsent: false,
     },
   });
 
@@ -172,13 +335,13 @@ export default function Home() {
             <div className="flex items-center space-x-4">
               <h1 className="text-2xl font-bold tracking-tight">LOCKS SOLD</h1>
               <span className="hidden sm:inline-block px-2 py-1 bg-red-600 text-xs font-semibold rounded-full uppercase tracking-wide">
-                Dropping Soon!
+                {statusCopy.badge}
               </span>
             </div>
             <div className="flex items-center space-x-4">
               <div className="hidden md:flex items-center space-x-2 text-sm text-gray-400">
                 <Users className="w-4 h-4 text-blue-400" />
-                <span>{queueStats?.totalSize || 283} in queue</span>
+                <span>{queueStats?.totalSize ?? 0} in queue</span>
               </div>
               <Button 
                 variant="ghost" 
@@ -204,45 +367,77 @@ export default function Home() {
             HOLD YOUR SPOT
           </h2>
           <p className="text-xl text-gray-400 mb-4 max-w-2xl mx-auto">
-            This will guarantee you a spot for the first 5 minutes of our drop!
-          </p>
-          <p className="text-lg text-gray-500 mb-8 max-w-2xl mx-auto">
-            Typical sellout time: <span className="text-red-400 font-semibold">47 seconds</span>
+            This will guarantee you a spot for the first {windowMinutes} minutes of our drop!
           </p>
+          {!honestMode && (
+            <p className="text-lg text-gray-500 mb-8 max-w-2xl mx-auto">
+              Typical sellout time: <span className="text-red-400 font-semibold">47 seconds</span>
+            </p>
+          )}
         </div>
 
-        {/* Countdown Timer */}
+        {/* Countdown Timer, or the drop's state once it has started */}
         <Card className="bg-gray-900/50 backdrop-blur-sm border-gray-800 mb-12">
           <CardContent className="p-4 sm:p-8 text-center">
-            <h3 className="text-xl sm:text-2xl font-semibold mb-4 sm:mb-6 text-gray-300">Drop begins in</h3>
-            <div className="grid grid-cols-4 gap-2 sm:gap-4 max-w-sm sm:max-w-md mx-auto">
-              {[
-                { label: "Days", value: timeLeft.days },
-                { label: "Hours", value: timeLeft.hours },
-                { label: "Minutes", value: timeLeft.minutes },
-                { label: "Seconds", value: timeLeft.seconds },
-              ].map((item) => (
-                <div key={item.label} className="bg-black border border-gray-700 rounded-lg sm:rounded-xl p-2 sm:p-4 min-h-[70px] sm:min-h-[80px] flex flex-col justify-center">
-                  <div className="text-xl sm:text-3xl font-bold text-blue-400 mb-1">{formatTime(item.value)}</div>
-                  <div className="text-xs sm:text-sm text-gray-500 uppercase tracking-wide leading-tight">{item.label}</div>
+            {statusCopy.countdown ? (
+              <>
+                <h3 className="text-xl sm:text-2xl font-semibold mb-4 sm:mb-6 text-gray-300">{statusCopy.countdown}</h3>
+                <div className="grid grid-cols-4 gap-2 sm:gap-4 max-w-sm sm:max-w-md mx-auto">
+                  {[
+                    { label: "Days", value: timeLeft.days },
+                    { label: "Hours", value: timeLeft.hours },
+                    { label: "Minutes", value: timeLeft.minutes },
+                    { label: "Seconds", value: timeLeft.seconds },
+                  ].map((item) => (
+                    <div key={item.label} className="bg-black border border-gray-700 rounded-lg sm:rounded-xl p-2 sm:p-4 min-h-[70px] sm:min-h-[80px] flex flex-col justify-center">
+                      <div className="text-xl sm:text-3xl font-bold text-blue-400 mb-1">{formatTime(item.value)}</div>
+                      <div className="text-xs sm:text-sm text-gray-500 uppercase tracking-wide leading-tight">{item.label}</div>
+                    </div>
+                  ))}
                 </div>
-              ))}
-            </div>
+              </>
+            ) : dropStatus === "live" ? (
+              <>
+                <h3 className="text-xl sm:text-2xl font-semibold mb-2 text-green-400">The drop is live</h3>
+                <p className="text-gray-400">
+                  We're letting the queue in now, in order. Watch your email for your access link.
+                </p>
+              </>
+            ) : (
+              <>
+                <h3 className="text-xl sm:text-2xl font-semibold mb-2 text-red-400">{statusCopy.closedTitle}</h3>
+                <p className="text-gray-400">{statusCopy.closedMessage}</p>
+              </>
+            )}
           </CardContent>
         </Card>
 
         {/* Queue Status */}
         <div className="grid md:grid-cols-2 gap-8 mb-12">
           {/* Join Queue Form or Position Display */}
-          {!joinedQueue ? (
+          {!joinedQueue && joinClosed ? (
+            <Card className="bg-gray-900/50 backdrop-blur-sm border-gray-800">
+              <CardContent className="p-8 text-center">
+                <div className="w-16 h-16 bg-gray-700 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <Clock className="w-8 h-8" />
+                </div>
+                <h3 className="text-2xl font-bold mb-2 text-white">{joinClosed.title}</h3>
+                <p className="text-gray-400">{joinClosed.message}</p>
+              </CardContent>
+            </Card>
+          ) : !joinedQueue ? (
             <Card className="bg-gray-900/50 backdrop-blur-sm border-gray-800">
               <CardContent className="p-8">
                 <div className="text-center mb-8">
                   <div className="w-16 h-16 bg-blue-600 rounded-full flex items-center justify-center mx-auto mb-4">
                     <Ticket className="w-8 h-8" />
                   </div>
-                  <h3 className="text-2xl font-bold mb-2 text-white">Reserve Your Spot</h3>
-                  <p className="text-gray-400">Get a reserved slot held for 5 minutes when the website launches</p>
+                  <h3 className="text-2xl font-bold mb-2 text-white">{queueFull ? "Join the Waitlist" : "Reserve Your Spot"}</h3>
+                  <p className="text-gray-400">
+                    {queueFull
+                      ? `The queue is full. If a spot frees up, the next person on the waitlist gets it (${queueStats?.waitlistSize ?? 0} waiting).`
+                      : `Get a reserved slot held for ${windowMinutes} minutes when the website launches`}
+                  </p>
                 </div>
 
                 <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
@@ -273,13 +468,48 @@ export default function Home() {
                       className="bg-black border-gray-700 text-white placeholder-gray-500 focus:ring-blue-500 focus:border-blue-500"
                       {...form.register("phone")}
                     />
+                    {form.formState.errors.phone && (
+                      <p className="text-red-400 text-sm mt-1">{form.formState.errors.phone.message}</p>
+                    )}
                   </div>
 
+                  {form.watch("phone") && (
+                    <div className="flex items-start space-x-3">
+                      <Checkbox
+                        id="smsConsent"
+                        checked={form.watch("smsConsent")}
+                        onCheckedChange={(checked) => form.setValue("smsConsent", checked === true)}
+                        className="border-gray-600 mt-0.5"
+                      />
+                      <Label htmlFor="smsConsent" className="text-gray-300 leading-snug">
+                        Text me a reminder before the drop and when my slot opens.
+                        <span className="block text-xs text-gray-500 mt-1">
+                          Msg &amp; data rates may apply. Reply STOP to opt out.
+                        </span>
+                      </Label>
+                    </div>
+                  )}
+
+                  <div className="flex items-center space-x-3">
+                    <Checkbox
+                      id="notifications"
+                      checked={form.watch("notifications")}
+                      onCheckedChange={(checked) => form.setValue("notifications", checked === true)}
+                      className="border-gray-600"
+                    />
+                    <Label htmlFor="notifications" className="text-gray-300 flex items-center">
+                      <Bell className="w-4 h-4 mr-2 text-blue-400" />
+                      Email me a reminder before the drop
+                    </Label>
+                  </div>
 
+                  {challenge && (
+                    <ChallengeWidget key={challengeKey} config={challenge} onToken={setChallengeToken} />
+                  )}
 
                   <Button
                     type="submit"
-                    disabled={joinQueueMutation.isPending}
+                    disabled={joinQueueMutation.isPending || (!!challenge && !challengeToken)}
                     className="w-full bg-blue-600 hover:bg-blue-700 font-semibold py-4 px-8 rounded-xl transition-all duration-200 transform hover:scale-[1.02] active:scale-[0.98]"
                   >
                     {joinQueueMutation.isPending ? (
@@ -290,7 +520,7 @@ export default function Home() {
                     ) : (
                       <>
                         <UserPlus className="w-4 h-4 mr-2" />
-                        Join Queue
+                        {queueFull ? "Join Waitlist" : "Join Queue"}
                       </>
                     )}
                   </Button>
@@ -306,8 +536,12 @@ export default function Home() {
                   <div className="w-16 h-16 bg-green-600 rounded-full flex items-center justify-center mx-auto mb-4">
                     <Check className="w-8 h-8" />
                   </div>
-                  <h3 className="text-2xl font-bold mb-2 text-green-400">You're In!</h3>
-                  <p className="text-gray-400">Your reserved slot is held for 5 minutes when the website launches</p>
+                  <h3 className="text-2xl font-bold mb-2 text-green-400">{onWaitlist ? "You're on the Waitlist" : "You're In!"}</h3>
+                  <p className="text-gray-400">
+                    {onWaitlist
+                      ? "We'll move you into the queue and email you as soon as a spot frees up"
+                      : `Your reserved slot is held for ${windowMinutes} minutes when the website launches`}
+                  </p>
                 </div>
 
                 <div className="space-y-6">
@@ -315,10 +549,10 @@ export default function Home() {
                     <div className="text-5xl font-bold text-blue-400 mb-2">
                       {userPosition?.position || 0}
                     </div>
-                    <div className="text-gray-400">Your position in line</div>
+                    <div className="text-gray-400">{onWaitlist ? "Your position on the waitlist" : "Your position in line"}</div>
                     {hasSharedPost && (
                       <div className="text-sm text-green-400 mt-1">
-                        Moved up 100 spots for sharing on Instagram!
+                        Moved up {boostSize} spots for sharing on Instagram!
                       </div>
                     )}
                   </div>
@@ -327,39 +561,76 @@ export default function Home() {
                     <div className="flex justify-between items-center mb-2">
                       <span className="text-sm text-gray-400">Estimated wait time:</span>
                       <span className="text-sm font-semibold text-blue-400">
-                        ~{userPosition?.estimatedWaitTime || 2} minutes
+                        ~{userPosition?.estimatedWaitTime ?? 0} minutes
                       </span>
                     </div>
                     <div className="flex justify-between items-center">
                       <span className="text-sm text-gray-400">People ahead:</span>
                       <span className="text-sm font-semibold text-white">
-                        {Math.max(0, (userPosition?.position || 1) - 1)}
+                        {userPosition?.peopleAhead ?? 0}
                       </span>
                     </div>
                   </div>
 
                   <div className="text-center">
-                    <div className="bg-blue-600/20 border border-blue-600/30 rounded-lg p-4 mb-4">
-                      <p className="text-sm text-blue-300 font-semibold">✓ RESERVED SLOT</p>
-                      <p className="text-sm text-blue-200 mt-1">
-                        Your slot will be reserved for the first 5 minutes of the drop. If you don't purchase within 5 minutes, it's released to others.
-                      </p>
-                    </div>
+                    {userPosition?.accessStatus === "open" ? (
+                      <div className="bg-green-600/20 border border-green-600/30 rounded-lg p-4 mb-4">
+                        <p className="text-sm text-green-300 font-semibold">YOUR SLOT IS OPEN</p>
+                        <p className="text-sm text-green-200 mt-1">
+                          We've emailed your personal access link. It works once and expires at{" "}
+                          {userPosition.accessExpiresAt ? new Date(userPosition.accessExpiresAt).toLocaleTimeString() : "the end of your window"}.
+                        </p>
+                      </div>
+                    ) : userPosition?.accessStatus === "redeemed" ? (
+                      <div className="bg-green-600/20 border border-green-600/30 rounded-lg p-4 mb-4">
+                        <p className="text-sm text-green-300 font-semibold">✓ ACCESS USED</p>
+                        <p className="text-sm text-green-200 mt-1">You've used your reserved slot. Enjoy the drop!</p>
+                      </div>
+                    ) : userPosition?.accessStatus === "released" ? (
+                      <div className="bg-red-600/20 border border-red-600/30 rounded-lg p-4 mb-4">
+                        <p className="text-sm text-red-300 font-semibold">SLOT RELEASED</p>
+                        <p className="text-sm text-red-200 mt-1">
+                          Your {windowMinutes}-minute window passed without a purchase, so your slot was released to others.
+                        </p>
+                      </div>
+                    ) : userPosition && !userPosition.emailVerified ? (
+                      <div className="bg-yellow-600/20 border border-yellow-600/30 rounded-lg p-4 mb-4">
+                        <p className="text-sm text-yellow-300 font-semibold">CONFIRM YOUR EMAIL</p>
+                        <p className="text-sm text-yellow-200 mt-1">
+                          Open the link we emailed to {userPosition.email}
+                          {userPosition.verifyBy ? ` by ${new Date(userPosition.verifyBy).toLocaleTimeString()}` : ""}. Unconfirmed spots are released and never admitted.
+                        </p>
+                      </div>
+                    ) : onWaitlist ? (
+                      <div className="bg-yellow-600/20 border border-yellow-600/30 rounded-lg p-4 mb-4">
+                        <p className="text-sm text-yellow-300 font-semibold">WAITLISTED</p>
+                        <p className="text-sm text-yellow-200 mt-1">
+                          You don't have a reserved slot yet. Spots free up when people leave the queue or don't use their slot in time.
+                        </p>
+                      </div>
+                    ) : (
+                      <div className="bg-blue-600/20 border border-blue-600/30 rounded-lg p-4 mb-4">
+                        <p className="text-sm text-blue-300 font-semibold">✓ RESERVED SLOT</p>
+                        <p className="text-sm text-blue-200 mt-1">
+                          Your slot will be reserved for the first {windowMinutes} minutes of the drop. If you don't purchase within {windowMinutes} minutes, it's released to others.
+                        </p>
+                      </div>
+                    )}
                   </div>
                 </div>
               </CardContent>
             </Card>
           )}
 
-          {/* Instagram Share Boost - only show if user joined */}
-          {joinedQueue && userPosition && (
+          {/* Instagram Share Boost - only show once the user's email is confirmed */}
+          {joinedQueue && userPosition?.emailVerified && (
             <Card className="bg-gray-900/50 backdrop-blur-sm border-gray-800">
               <CardContent className="p-6">
                 <div className="text-center">
                   <div className="w-16 h-16 bg-gradient-to-r from-purple-500 to-pink-500 rounded-full flex items-center justify-center mx-auto mb-4">
                     <Instagram className="w-8 h-8 text-white" />
                   </div>
-                  <h3 className="text-xl font-bold mb-4 text-white">Move Up 100 Spots!</h3>
+                  <h3 className="text-xl font-bold mb-4 text-white">Move Up {boostSize} Spots!</h3>
                   <p className="text-gray-400 mb-6">
                     Share our Instagram post to your story and jump ahead in line
                   </p>
@@ -372,15 +643,31 @@ export default function Home() {
                         Instagram boost feature will be available before the drop. Check back later!
                       </p>
                     </div>
+                  ) : boostPending ? (
+                    <div className="bg-yellow-600/20 border border-yellow-600/30 rounded-lg p-6">
+                      <div className="text-4xl mb-4">⏳</div>
+                      <h4 className="text-lg font-bold text-yellow-400 mb-2">Boost Pending Review</h4>
+                      <p className="text-yellow-200 text-sm">
+                        We've got your claim. Your boost will be applied as soon as a moderator confirms your share.
+                      </p>
+                    </div>
                   ) : !hasSharedPost ? (
                     <div className="space-y-4">
+                      {boostRejected && (
+                        <div className="bg-red-600/20 border border-red-600/30 rounded-lg p-4">
+                          <p className="text-sm text-red-300 font-semibold">Your last boost claim was not approved</p>
+                          <p className="text-sm text-red-200 mt-1">
+                            We couldn't confirm your share. Make sure your story tags us and try again.
+                          </p>
+                        </div>
+                      )}
                       <div className="bg-blue-600/20 border border-blue-600/30 rounded-lg p-4">
                         <p className="text-sm text-blue-300 font-semibold mb-2">📢 HOW IT WORKS</p>
                         <ol className="text-sm text-blue-200 text-left space-y-1">
                           <li>1. Click the link below to open Instagram</li>
                           <li>2. Share the post to your story</li>
                           <li>3. Enter your Instagram username to verify</li>
-                          <li>4. Move up 100 spots instantly</li>
+                          <li>4. Move up {boostSize} spots once your share is approved</li>
                         </ol>
                       </div>
                       
@@ -432,7 +719,6 @@ export default function Home() {
                                   return;
                                 }
                                 verifyInstagramMutation.mutate({
-                                  email: userEmail,
                                   instagramUsername: instagramUsername.replace('@', '')
                                 });
                               }}
@@ -457,7 +743,7 @@ export default function Home() {
                       )}
                       
                       <p className="text-xs text-gray-500 mt-4">
-                        * One boost per person. We verify through Instagram username submission.
+                        * One boost per person. We check Instagram for a recent post or story from your username that tags us.
                       </p>
                     </div>
                   ) : (
@@ -465,7 +751,7 @@ export default function Home() {
                       <div className="text-4xl mb-4">🎉</div>
                       <h4 className="text-lg font-bold text-green-400 mb-2">Boost Applied!</h4>
                       <p className="text-green-300 text-sm">
-                        You've moved up 100 spots for sharing! Thanks for spreading the word about LOCKS SOLD.
+                        You've moved up {boostSize} spots for sharing! Thanks for spreading the word about LOCKS SOLD.
                       </p>
                     </div>
                   )}
@@ -515,12 +801,14 @@ export default function Home() {
                 ))}
 
                 {/* Show gap indicator */}
-                <div className="text-center py-4">
-                  <div className="text-2xl font-bold text-gray-500">...</div>
-                  <div className="text-sm text-gray-400 mt-2">
-                    {(queueStats?.totalSize || 283) - 4} more people in queue
+                {(queueStats?.totalSize ?? 0) > (queueStats?.topEntries.length ?? 0) && (
+                  <div className="text-center py-4">
+                    <div className="text-2xl font-bold text-gray-500">...</div>
+                    <div className="text-sm text-gray-400 mt-2">
+                      {(queueStats?.totalSize ?? 0) - (queueStats?.topEntries.length ?? 0)} more people in queue
+                    </div>
                   </div>
-                </div>
+                )}
 
                 {/* Show user's position if joined */}
                 {joinedQueue && userPosition && (
@@ -541,7 +829,7 @@ export default function Home() {
                 <div className="flex justify-between items-center text-sm">
                   <span className="text-gray-400">Total in queue:</span>
                   <span className="font-semibold text-blue-400">
-                    {queueStats?.totalSize || 283}
+                    {queueStats?.totalSize ?? 0}
                   </span>
                 </div>
               </div>
@@ -581,7 +869,7 @@ export default function Home() {
                 </div>
                 <h4 className="font-semibold mb-2 text-white">2. Wait for Launch</h4>
                 <p className="text-sm text-gray-400">
-                  At drop time, our website opens to everyone but your slot is reserved for 5 minutes
+                  At drop time, our website opens to everyone but your slot is reserved for {windowMinutes} minutes
                 </p>
               </div>
               <div className="text-center">
@@ -590,7 +878,7 @@ export default function Home() {
                 </div>
                 <h4 className="font-semibold mb-2 text-white">3. Shop with Priority</h4>
                 <p className="text-sm text-gray-400">
-                  Purchase within 5 minutes or your reserved slot is released to others
+                  Purchase within {windowMinutes} minutes or your reserved slot is released to others
                 </p>
               </div>
             </div>
@@ -605,21 +893,23 @@ export default function Home() {
               <div className="border-b border-gray-800 pb-4">
                 <h4 className="font-semibold mb-2 text-white">What happens at drop time?</h4>
                 <p className="text-sm text-gray-400">
-                  Our website opens to everyone simultaneously, but your product slot is reserved for 5 minutes if you're in the queue.
+                  Our website opens to everyone simultaneously, but your product slot is reserved for {windowMinutes} minutes if you're in the queue.
                 </p>
               </div>
               <div className="border-b border-gray-800 pb-4">
                 <h4 className="font-semibold mb-2 text-white">How long do I have to shop?</h4>
                 <p className="text-sm text-gray-400">
-                  You have 5 minutes to complete your purchase. If you don't buy within 5 minutes, your reserved slot is released to others.
-                </p>
-              </div>
-              <div className="border-b border-gray-800 pb-4">
-                <h4 className="font-semibold mb-2 text-white">How fast do items sell out?</h4>
-                <p className="text-sm text-gray-400">
-                  Typically 47 seconds. Being in the queue gives you a reserved slot while others compete for remaining inventory.
+                  You have {windowMinutes} minutes to complete your purchase. If you don't buy within {windowMinutes} minutes, your reserved slot is released to others.
                 </p>
               </div>
+              {!honestMode && (
+                <div className="border-b border-gray-800 pb-4">
+                  <h4 className="font-semibold mb-2 text-white">How fast do items sell out?</h4>
+                  <p className="text-sm text-gray-400">
+                    Typically 47 seconds. Being in the queue gives you a reserved slot while others compete for remaining inventory.
+                  </p>
+                </div>
+              )}
               <div>
                 <h4 className="font-semibold mb-2 text-white">Can I join multiple times?</h4>
                 <p className="text-sm text-gray-400">
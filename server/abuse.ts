@@ -0,0 +1,118 @@
+import { type AbuseSignal } from "@shared/schema";
+import { storage } from "./storage";
+
+// Well-known throwaway inbox providers; extend with DISPOSABLE_EMAIL_DOMAINS (comma-separated)
+const BUILT_IN_DISPOSABLE_DOMAINS = [
+  "10minutemail.com",
+  "33mail.com",
+  "discard.email",
+  "dispostable.com",
+  "emailondeck.com",
+  "fakeinbox.com",
+  "getairmail.com",
+  "getnada.com",
+  "guerrillamail.com",
+  "guerrillamail.net",
+  "guerrillamailblock.com",
+  "maildrop.cc",
+  "mailinator.com",
+  "mailnesia.com",
+  "mintemail.com",
+  "mohmal.com",
+  "moakt.com",
+  "sharklasers.com",
+  "spamgourmet.com",
+  "temp-mail.org",
+  "tempail.com",
+  "tempmail.com",
+  "tempmailo.com",
+  "throwawaymail.com",
+  "trashmail.com",
+  "yopmail.com",
+];
+
+const disposableDomains = new Set([
+  ...BUILT_IN_DISPOSABLE_DOMAINS,
+  ...(process.env.DISPOSABLE_EMAIL_DOMAINS || "").split(",").map(domain => domain.trim().toLowerCase()).filter(Boolean),
+]);
+
+// Big consumer mailbox providers: most legitimate sign-ups share these, so they are never throttled as a
+// domain. Extend with WEBMAIL_DOMAINS (comma-separated).
+const BUILT_IN_WEBMAIL_DOMAINS = [
+  "163.com",
+  "aol.com",
+  "gmail.com",
+  "gmx.com",
+  "gmx.de",
+  "gmx.net",
+  "googlemail.com",
+  "hotmail.co.uk",
+  "hotmail.com",
+  "icloud.com",
+  "live.com",
+  "mac.com",
+  "mail.com",
+  "me.com",
+  "msn.com",
+  "outlook.com",
+  "proton.me",
+  "protonmail.com",
+  "qq.com",
+  "web.de",
+  "yahoo.co.uk",
+  "yahoo.com",
+  "yandex.ru",
+  "ymail.com",
+  "zoho.com",
+];
+
+const webmailDomains = new Set([
+  ...BUILT_IN_WEBMAIL_DOMAINS,
+  ...(process.env.WEBMAIL_DOMAINS || "").split(",").map(domain => domain.trim().toLowerCase()).filter(Boolean),
+]);
+
+// Lowercased part after the @, or undefined for anything that isn't an email
+export function emailDomain(email: unknown): string | undefined {
+  if (typeof email !== "string") return undefined;
+  const at = email.lastIndexOf("@");
+  return at > 0 ? email.slice(at + 1).trim().toLowerCase() || undefined : undefined;
+}
+
+// Subdomains count too, e.g. abc.mailinator.com
+export function isDisposableEmail(email: string): boolean {
+  const domain = emailDomain(email);
+  if (!domain) return false;
+
+  const labels = domain.split(".");
+  return labels.some((_, i) => disposableDomains.has(labels.slice(i).join(".")));
+}
+
+// Bucket for the per-domain join throttle; webmail providers get none, so they aren't limited
+export function joinThrottleDomain(email: unknown): string | undefined {
+  const domain = emailDomain(email);
+  return domain && !webmailDomains.has(domain) ? domain : undefined;
+}
+
+interface SignupRequest {
+  dropId: string;
+  email: string;
+  ip: string | null;
+  userAgent: string | null;
+}
+
+// Heuristics worth a moderator's look; an entry can trip several
+export async function collectAbuseSignals({ dropId, email, ip, userAgent }: SignupRequest): Promise<AbuseSignal[]> {
+  const signals: AbuseSignal[] = [];
+
+  if (ip && await storage.countQueueEntriesFromIp(dropId, ip) > 0) {
+    signals.push("shared_ip");
+  }
+  if (email.slice(0, email.lastIndexOf("@")).includes("+")) {
+    signals.push("plus_address");
+  }
+  if (!userAgent) {
+    signals.push("missing_user_agent");
+  }
+
+  return signals;
+}
@@ -0,0 +1,36 @@
+import { type AccessStatus, type QueueEntry } from "@shared/schema";
+import { signToken, readToken } from "./signed-tokens";
+
+export interface AccessTokenPayload {
+  entryId: string;
+  tokenId: string;
+  expiresAt: Date;
+}
+
+export function signAccessToken(entry: QueueEntry): string {
+  if (!entry.accessTokenId || !entry.accessTokenExpiresAt) {
+    throw new Error("Queue entry has no access token issued");
+  }
+
+  return signToken({
+    e: entry.id,
+    t: entry.accessTokenId,
+    x: entry.accessTokenExpiresAt.getTime(),
+  });
+}
+
+// Checks the signature only; whether the token is still usable depends on the entry's stored state
+export function verifyAccessToken(token: string): AccessTokenPayload | null {
+  const payload = readToken(token);
+  if (typeof payload?.e !== "string" || typeof payload.t !== "string" || typeof payload.x !== "number") return null;
+
+  return { entryId: payload.e, tokenId: payload.t, expiresAt: new Date(payload.x) };
+}
+
+// Expiry counts even before the scheduler has marked the slot released
+export function getAccessStatus(entry: QueueEntry, now = new Date()): AccessStatus {
+  if (entry.accessTokenRedeemedAt) return "redeemed";
+  if (entry.accessReleasedAt) return "released";
+  if (!entry.accessTokenExpiresAt) return "waiting";
+  return entry.accessTokenExpiresAt > now ? "open" : "released";
+}
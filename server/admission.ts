@@ -0,0 +1,61 @@
+import { type Drop, type QueueEntry } from "@shared/schema";
+import { storage, type AdmissionStats } from "./storage";
+import { notifySlotOpen } from "./notifications";
+import { signAccessToken } from "./access-tokens";
+import { shopifyClient } from "./shopify";
+import { publishQueueEvent } from "./queue-events";
+
+// Admits the drop's next wave if its interval has passed, then sends each admitted entry its access link
+export async function runAdmissionWave(drop: Drop): Promise<QueueEntry[]> {
+  if (!await storage.claimAdmissionWave(drop.id, drop.admissionIntervalSeconds)) return [];
+
+  const admitted = await storage.admitNextEntries(drop.id, drop.admissionBatchSize, drop.accessWindowMinutes);
+  for (const entry of admitted) {
+    await reserveCheckout(entry, drop);
+    await notifySlotOpen(entry, drop, signAccessToken(entry));
+  }
+  if (admitted.length > 0) {
+    publishQueueEvent(drop.id, { type: "admission", admitted: admitted.length });
+  }
+  return admitted;
+}
+
+// Holds the drop's variant for the entry in a Shopify draft order until its access window closes.
+// Best effort: without a draft order the entry can still buy through the storefront.
+async function reserveCheckout(entry: QueueEntry, drop: Drop) {
+  if (!drop.shopifyVariantId || !entry.accessTokenExpiresAt) return;
+
+  try {
+    const draftOrder = await shopifyClient.createDraftOrder({
+      variantId: drop.shopifyVariantId,
+      email: entry.email,
+      queueEntryId: entry.id,
+      reserveUntil: entry.accessTokenExpiresAt,
+    });
+    await storage.setShopifyCheckout(entry.id, draftOrder.id, draftOrder.invoiceUrl);
+  } catch (error) {
+    console.error(`Failed to create a Shopify draft order for ${entry.email}:`, error);
+  }
+}
+
+// People admitted per second: measured from past waves once there are any, otherwise the configured rate
+function admissionRate(drop: Drop, stats: AdmissionStats): number {
+  if (stats.admitted > 0 && stats.firstAdmittedAt && stats.lastAdmittedAt) {
+    const seconds = (stats.lastAdmittedAt.getTime() - stats.firstAdmittedAt.getTime()) / 1000 + drop.admissionIntervalSeconds;
+    return stats.admitted / seconds;
+  }
+  return drop.admissionBatchSize / drop.admissionIntervalSeconds;
+}
+
+// Minutes from the drop opening (or from now, once it's live) until someone with this many people ahead is admitted
+export function estimateWaitMinutes(drop: Drop, peopleAhead: number, stats: AdmissionStats, now = new Date()): number {
+  const perWave = Math.max(1, admissionRate(drop, stats) * drop.admissionIntervalSeconds);
+  let seconds = Math.floor(peopleAhead / perWave) * drop.admissionIntervalSeconds;
+
+  if (drop.dropTime <= now && drop.lastAdmissionAt) {
+    const nextWaveAt = drop.lastAdmissionAt.getTime() + drop.admissionIntervalSeconds * 1000;
+    seconds += Math.max(0, (nextWaveAt - now.getTime()) / 1000);
+  }
+
+  return Math.ceil(seconds / 60);
+}
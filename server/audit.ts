@@ -0,0 +1,27 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+
+// Record a mutating admin action with the before/after state of the entity
+export async function recordAudit(
+  req: Request,
+  action: string,
+  entityType: string,
+  entityId: string | null,
+  before: unknown,
+  after: unknown,
+) {
+  try {
+    await storage.createAuditLog({
+      actorId: req.user?.id ?? null,
+      actorUsername: req.user?.username ?? "system",
+      action,
+      entityType,
+      entityId,
+      before: before ?? null,
+      after: after ?? null,
+    });
+  } catch (error) {
+    // The action itself already succeeded; don't fail the request over the log
+    console.error(`Failed to record audit log for ${action}:`, error);
+  }
+}
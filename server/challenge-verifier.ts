@@ -0,0 +1,83 @@
+export type ChallengeProvider = "turnstile" | "hcaptcha";
+
+// What the client needs to render the challenge widget
+export interface ChallengeWidget {
+  provider: ChallengeProvider;
+  siteKey: string;
+}
+
+export interface ChallengeResult {
+  success: boolean;
+  detail?: string;
+}
+
+export interface ChallengeVerifier {
+  // Null when the join form doesn't need to show a widget
+  readonly widget: ChallengeWidget | null;
+  verify(token: string | undefined, remoteIp?: string): Promise<ChallengeResult>;
+}
+
+// Both providers accept the same siteverify form post and answer with the same shape
+const SITEVERIFY_URLS: Record<ChallengeProvider, string> = {
+  turnstile: "https://challenges.cloudflare.com/turnstile/v0/siteverify",
+  hcaptcha: "https://api.hcaptcha.com/siteverify",
+};
+
+interface SiteverifyResponse {
+  success: boolean;
+  "error-codes"?: string[];
+}
+
+// Checks widget responses with Cloudflare Turnstile or hCaptcha
+export class SiteverifyChallengeVerifier implements ChallengeVerifier {
+  readonly widget: ChallengeWidget;
+
+  constructor(provider: ChallengeProvider, siteKey: string, private secretKey: string) {
+    this.widget = { provider, siteKey };
+  }
+
+  async verify(token: string | undefined, remoteIp?: string): Promise<ChallengeResult> {
+    if (!token) {
+      return { success: false, detail: "Missing challenge response" };
+    }
+
+    const form = new URLSearchParams({ secret: this.secretKey, response: token });
+    if (remoteIp) form.set("remoteip", remoteIp);
+
+    const response = await fetch(SITEVERIFY_URLS[this.widget.provider], { method: "POST", body: form });
+    if (!response.ok) {
+      throw new Error(`${this.widget.provider} siteverify error ${response.status}: ${await response.text()}`);
+    }
+
+    const body = (await response.json()) as SiteverifyResponse;
+    return body.success
+      ? { success: true }
+      : { success: false, detail: body["error-codes"]?.join(", ") || "Challenge failed" };
+  }
+}
+
+// Returns a fixed result without a widget; for tests and local development without provider keys
+export class StubChallengeVerifier implements ChallengeVerifier {
+  readonly widget = null;
+
+  constructor(private pass = true) {}
+
+  async verify(): Promise<ChallengeResult> {
+    return { success: this.pass, detail: `Stub challenge verifier (${this.pass ? "pass" : "fail"})` };
+  }
+}
+
+function createChallengeVerifier(): ChallengeVerifier {
+  const { TURNSTILE_SITE_KEY, TURNSTILE_SECRET_KEY, HCAPTCHA_SITE_KEY, HCAPTCHA_SECRET_KEY, CHALLENGE_STUB_RESULT } = process.env;
+
+  if (TURNSTILE_SITE_KEY && TURNSTILE_SECRET_KEY) {
+    return new SiteverifyChallengeVerifier("turnstile", TURNSTILE_SITE_KEY, TURNSTILE_SECRET_KEY);
+  }
+  if (HCAPTCHA_SITE_KEY && HCAPTCHA_SECRET_KEY) {
+    return new SiteverifyChallengeVerifier("hcaptcha", HCAPTCHA_SITE_KEY, HCAPTCHA_SECRET_KEY);
+  }
+
+  return new StubChallengeVerifier(CHALLENGE_STUB_RESULT !== "fail");
+}
+
+export const challengeVerifier = createChallengeVerifier();
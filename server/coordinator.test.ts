@@ -0,0 +1,129 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import { LocalCoordinator, LocalHub, PostgresCoordinator } from "./coordinator";
+import { pool } from "./db";
+
+// Two simulated server instances sharing one hub
+function twoInstances() {
+  const hub = new LocalHub();
+  return [new LocalCoordinator(hub), new LocalCoordinator(hub)];
+}
+
+describe("LocalCoordinator", () => {
+  it("gives leadership to one instance at a time", async () => {
+    const [a, b] = twoInstances();
+
+    assert.equal(await a.acquireLeadership("scheduler"), true);
+    assert.equal(await b.acquireLeadership("scheduler"), false);
+    // Asking again while holding it is fine
+    assert.equal(await a.acquireLeadership("scheduler"), true);
+    // Other names are independent
+    assert.equal(await b.acquireLeadership("reports"), true);
+  });
+
+  it("passes leadership on once the leader releases it", async () => {
+    const [a, b] = twoInstances();
+    await a.acquireLeadership("scheduler");
+
+    // Only the holder can release
+    await b.releaseLeadership("scheduler");
+    assert.equal(await b.acquireLeadership("scheduler"), false);
+
+    await a.releaseLeadership("scheduler");
+    assert.equal(await b.acquireLeadership("scheduler"), true);
+    assert.equal(await a.acquireLeadership("scheduler"), false);
+  });
+
+  it("fans events out to every instance, the publisher included", async () => {
+    const [a, b] = twoInstances();
+    const received: string[] = [];
+    a.subscribe("queue_events", payload => received.push(`a:${payload}`));
+    const unsubscribeB = b.subscribe("queue_events", payload => received.push(`b:${payload}`));
+
+    await a.publish("queue_events", "one");
+    unsubscribeB();
+    await b.publish("queue_events", "two");
+    await b.publish("other_channel", "three");
+
+    assert.deepEqual(received, ["a:one", "b:one", "a:two"]);
+  });
+});
+
+// Resolves once the listener has received `count` payloads, or fails after a few seconds
+function collect(count: number) {
+  const received: string[] = [];
+  let done: () => void;
+  const complete = new Promise<void>((resolve, reject) => {
+    done = resolve;
+    setTimeout(() => reject(new Error(`Received only ${JSON.stringify(received)}`)), 5000).unref();
+  });
+  const listener = (payload: string) => {
+    received.push(payload);
+    if (received.length === count) done();
+  };
+  return { received, listener, complete };
+}
+
+if (process.env.TEST_DATABASE_URL) {
+  describe("PostgresCoordinator", () => {
+    // Each simulated instance gets its own dedicated connection, as separate servers would
+    const instances: PostgresCoordinator[] = [];
+    const instance = () => {
+      const coordinator = new PostgresCoordinator(process.env.TEST_DATABASE_URL!);
+      instances.push(coordinator);
+      return coordinator;
+    };
+    // Unique per run, so leftovers from an aborted run can't interfere
+    const suffix = `${process.pid}_${Date.now()}`;
+
+    after(async () => {
+      await Promise.all(instances.map(coordinator => coordinator.close()));
+      await pool.end();
+    });
+
+    it("gives leadership to one instance at a time and hands it over on release", async () => {
+      const [a, b] = [instance(), instance()];
+      const name = `scheduler_${suffix}`;
+
+      assert.equal(await a.acquireLeadership(name), true);
+      assert.equal(await b.acquireLeadership(name), false);
+      // Asking again while holding it doesn't stack the lock, so one release is enough
+      assert.equal(await a.acquireLeadership(name), true);
+
+      await a.releaseLeadership(name);
+      assert.equal(await b.acquireLeadership(name), true);
+      assert.equal(await a.acquireLeadership(name), false);
+      await b.releaseLeadership(name);
+    });
+
+    it("passes leadership on when the leader's connection goes away", async () => {
+      const [a, b] = [instance(), instance()];
+      const name = `reports_${suffix}`;
+
+      assert.equal(await a.acquireLeadership(name), true);
+      assert.equal(await b.acquireLeadership(name), false);
+
+      await a.close();
+      assert.equal(await b.acquireLeadership(name), true);
+      await b.releaseLeadership(name);
+    });
+
+    it("fans NOTIFY events out to every instance, the publisher included", async () => {
+      const [a, b] = [instance(), instance()];
+      const channel = `queue_events_${suffix}`;
+      const toA = collect(2);
+      const toB = collect(2);
+      a.subscribe(channel, toA.listener);
+      b.subscribe(channel, toB.listener);
+      // LISTEN is queued on each instance's connection ahead of this query, so both are listening once it returns
+      await Promise.all([a.acquireLeadership(`warmup_${suffix}`), b.acquireLeadership(`warmup_${suffix}`)]);
+
+      await a.publish(channel, "one");
+      await b.publish(channel, "two");
+      await Promise.all([toA.complete, toB.complete]);
+
+      assert.deepEqual(toA.received, ["one", "two"]);
+      assert.deepEqual(toB.received, ["one", "two"]);
+    });
+  });
+}
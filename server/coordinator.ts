@@ -0,0 +1,165 @@
+import { EventEmitter } from "events";
+import { Client } from "@neondatabase/serverless";
+import { pool } from "./db";
+
+// What several server instances need to share: event fan-out and a single leader for singleton jobs
+export interface Coordinator {
+  // Delivered to subscribers on every instance, this one included
+  publish(channel: string, payload: string): Promise<void>;
+  subscribe(channel: string, listener: (payload: string) => void): () => void;
+  // True while this instance holds the named leadership; safe to call repeatedly.
+  // Leadership passes on when the holder releases it or goes away.
+  acquireLeadership(name: string): Promise<boolean>;
+  releaseLeadership(name: string): Promise<void>;
+}
+
+// Channel names become SQL identifiers in LISTEN, so keep them simple
+function assertChannel(channel: string) {
+  if (!/^[a-z_][a-z0-9_]*$/.test(channel)) {
+    throw new Error(`Invalid channel name: ${channel}`);
+  }
+}
+
+// LISTEN/NOTIFY for events and session-level advisory locks for leadership, both on one dedicated
+// connection: if this instance dies, Postgres drops the connection and another instance takes over.
+// Needs a direct (unpooled) connection string, since transaction poolers support neither.
+export class PostgresCoordinator implements Coordinator {
+  private connecting: Promise<Client> | null = null;
+  private listeners = new Map<string, Set<(payload: string) => void>>();
+  private held = new Set<string>();
+
+  constructor(private connectionString: string) {}
+
+  async publish(channel: string, payload: string): Promise<void> {
+    assertChannel(channel);
+    await pool.query("select pg_notify($1, $2)", [channel, payload]);
+  }
+
+  subscribe(channel: string, listener: (payload: string) => void): () => void {
+    assertChannel(channel);
+
+    let listeners = this.listeners.get(channel);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(channel, listeners);
+      this.connection()
+        .then(client => client.query(`LISTEN ${channel}`))
+        .catch(error => console.error(`Failed to listen on ${channel}:`, error));
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners!.delete(listener);
+    };
+  }
+
+  async acquireLeadership(name: string): Promise<boolean> {
+    const client = await this.connection();
+    // Advisory locks stack within a session, so only take it once
+    if (this.held.has(name)) return true;
+
+    const { rows } = await client.query<{ acquired: boolean }>("select pg_try_advisory_lock(hashtext($1)) as acquired", [name]);
+    if (rows[0]?.acquired) {
+      this.held.add(name);
+      return true;
+    }
+    return false;
+  }
+
+  async releaseLeadership(name: string): Promise<void> {
+    if (!this.held.delete(name)) return;
+
+    const client = await this.connection();
+    await client.query("select pg_advisory_unlock(hashtext($1))", [name]);
+  }
+
+  // Ends the dedicated connection, which also gives up any leadership held; for shutdown and tests
+  async close(): Promise<void> {
+    // A connection that never opened has nothing to end
+    const client = await this.connecting?.catch(() => null);
+    this.connecting = null;
+    this.held.clear();
+    await client?.end();
+  }
+
+  private connection(): Promise<Client> {
+    if (!this.connecting) {
+      const connecting = this.connect();
+      this.connecting = connecting;
+      connecting.catch(() => {
+        if (this.connecting === connecting) this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async connect(): Promise<Client> {
+    const client = new Client({ connectionString: this.connectionString });
+
+    client.on("notification", ({ channel, payload }) => {
+      this.listeners.get(channel)?.forEach(listener => listener(payload ?? ""));
+    });
+    // Locks die with the connection; the next call reconnects and listens again
+    client.on("error", (error) => {
+      console.error("Coordinator connection lost:", error);
+      this.held.clear();
+      this.connecting = null;
+      client.end().catch(() => {});
+    });
+
+    await client.connect();
+    for (const channel of Array.from(this.listeners.keys())) {
+      await client.query(`LISTEN ${channel}`);
+    }
+    return client;
+  }
+}
+
+// Shared by LocalCoordinators in one process; give each simulated instance the same hub in tests
+export class LocalHub {
+  readonly events = new EventEmitter().setMaxListeners(0);
+  readonly leaders = new Map<string, LocalCoordinator>();
+}
+
+// In-process stand-in for a single instance, or several simulated ones sharing a hub
+export class LocalCoordinator implements Coordinator {
+  constructor(private hub = new LocalHub()) {}
+
+  async publish(channel: string, payload: string): Promise<void> {
+    this.hub.events.emit(channel, payload);
+  }
+
+  subscribe(channel: string, listener: (payload: string) => void): () => void {
+    this.hub.events.on(channel, listener);
+    return () => {
+      this.hub.events.off(channel, listener);
+    };
+  }
+
+  async acquireLeadership(name: string): Promise<boolean> {
+    const leader = this.hub.leaders.get(name);
+    if (leader && leader !== this) return false;
+
+    this.hub.leaders.set(name, this);
+    return true;
+  }
+
+  async releaseLeadership(name: string): Promise<void> {
+    if (this.hub.leaders.get(name) === this) {
+      this.hub.leaders.delete(name);
+    }
+  }
+}
+
+function createCoordinator(): Coordinator {
+  const { COORDINATOR, COORDINATOR_DATABASE_URL, DATABASE_URL } = process.env;
+
+  // A single instance (or local development) can skip the extra connection
+  if (COORDINATOR === "local") {
+    return new LocalCoordinator();
+  }
+
+  return new PostgresCoordinator(COORDINATOR_DATABASE_URL || DATABASE_URL!);
+}
+
+export const coordinator = createCoordinator();
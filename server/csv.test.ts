@@ -0,0 +1,35 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { formatCsvField, formatCsvRow, parseCsv } from "./csv";
+import { parseQueueImport } from "./queue-import";
+
+describe("formatCsvField", () => {
+  it("defuses values a spreadsheet would run as a formula", () => {
+    assert.equal(formatCsvField("=1+2"), "'=1+2");
+    assert.equal(formatCsvField("+1+2"), "'+1+2");
+    assert.equal(formatCsvField("@SUM(A1)"), "'@SUM(A1)");
+  });
+
+  it("leaves phone numbers and other plain numbers alone", () => {
+    assert.equal(formatCsvField("+15551234567"), "+15551234567");
+    assert.equal(formatCsvField("-2.5"), "-2.5");
+  });
+});
+
+describe("export and import", () => {
+  it("reads an exported row back with its phone number intact", () => {
+    const csv = formatCsvRow(["email", "phone"]) + formatCsvRow(["someone@example.com", "+15551234567"]);
+    assert.deepEqual(parseCsv(csv), [["email", "phone"], ["someone@example.com", "+15551234567"]]);
+
+    const parsed = parseQueueImport(csv);
+    assert.ok(!("error" in parsed));
+    assert.equal(parsed.valid.length, 1);
+    assert.equal(parsed.valid[0].entry.phone, "+15551234567");
+  });
+
+  it("lowercases imported emails and treats case-only differences as duplicates", () => {
+    const parsed = parseQueueImport("email\n Foo@Example.com\nfoo@example.com\n");
+    assert.ok(!("error" in parsed));
+    assert.deepEqual(parsed.rows.map(row => [row.email, row.status]), [["foo@example.com", "ready"], ["foo@example.com", "duplicate"]]);
+  });
+});
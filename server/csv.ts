@@ -0,0 +1,66 @@
+// Minimal RFC 4180 reading and writing for admin exports and imports
+
+export type CsvValue = string | number | boolean | null;
+
+// Plain numbers, signed ones included, such as E.164 phone numbers (+15551234567); nothing for a spreadsheet to run
+const PLAIN_NUMBER = /^[+-]?\d+(\.\d+)?$/;
+
+// Quotes fields that need it, and defuses values a spreadsheet would run as a formula
+export function formatCsvField(value: CsvValue): string {
+  if (value === null) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text) && !PLAIN_NUMBER.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsvRow(values: CsvValue[]): string {
+  return values.map(formatCsvField).join(",") + "\r\n";
+}
+
+// Rows of fields, with quoted fields unescaped. Accepts \n or \r\n line endings and a leading BOM;
+// blank lines are dropped. Throws on a quote left open at the end of the text.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      endRow();
+    } else if (char !== "\r") {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error("The file has an unclosed quote");
+  }
+  endRow();
+  return rows;
+}
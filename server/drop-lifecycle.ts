@@ -0,0 +1,42 @@
+import { type Drop, type DropStatus } from "@shared/schema";
+import { storage } from "./storage";
+import { publishQueueEvent } from "./queue-events";
+
+// The status a drop's timestamps say it should move to next, or null if nothing is due yet.
+// sold_out is only ever set by an admin; scheduled drops open right away without queueOpensAt.
+export function dueDropStatus(drop: Drop, now = new Date()): DropStatus | null {
+  switch (drop.status) {
+    case "scheduled":
+      return !drop.queueOpensAt || drop.queueOpensAt <= now ? "queue_open" : null;
+    case "queue_open":
+      return drop.dropTime <= now ? "live" : null;
+    case "live":
+    case "sold_out":
+      return drop.closesAt && drop.closesAt <= now ? "closed" : null;
+    case "closed":
+      return null;
+  }
+}
+
+// Moves every drop along its lifecycle as far as its timestamps allow; returns the drops that changed
+export async function advanceDropStatuses(now = new Date()): Promise<Drop[]> {
+  const changed: Drop[] = [];
+
+  for (const drop of await storage.getAllDrops()) {
+    let current: Drop | undefined = drop;
+    let next = dueDropStatus(current, now);
+
+    // e.g. a scheduled drop whose opening and drop time both passed goes straight on to live
+    while (current && next) {
+      current = await storage.transitionDropStatus(current.id, current.status, next);
+      if (current) {
+        console.log(`Drop ${current.name} is now ${current.status}`);
+        publishQueueEvent(current.id, { type: "status", status: current.status });
+        changed.push(current);
+        next = dueDropStatus(current, now);
+      }
+    }
+  }
+
+  return changed;
+}
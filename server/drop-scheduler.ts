@@ -0,0 +1,89 @@
+import { storage } from "./storage";
+import { notifyDropReminder, notifyPromoted } from "./notifications";
+import { runAdmissionWave } from "./admission";
+import { advanceDropStatuses } from "./drop-lifecycle";
+import { publishQueueEvent } from "./queue-events";
+import { coordinator } from "./coordinator";
+
+// Short enough to honor admission intervals of a few seconds
+const TICK_MS = 5 * 1000;
+const REMINDER_MINUTES = 10;
+const LEADERSHIP = "drop_scheduler";
+
+// Moves drops along their lifecycle, sends the pre-drop reminders and, while the active drop is live,
+// admits the queue in waves; also releases slots whose window passed unused, drops sign-ups that never confirmed
+// their email and refills the queue from the waitlist
+export async function runDropScheduler(now = new Date()) {
+  await advanceDropStatuses(now);
+
+  const released = await storage.releaseExpiredAccessTokens();
+  if (released > 0) {
+    console.log(`Released ${released} unredeemed reserved slot(s)`);
+  }
+
+  const expired = await storage.expireUnverifiedEntries(now);
+  if (expired > 0) {
+    console.log(`Removed ${expired} sign-up(s) with an unconfirmed email`);
+  }
+
+  const drop = await storage.getActiveDrop();
+  if (!drop || drop.status === "closed") return;
+
+  // Spots freed by removed entries or released slots go to the head of the waitlist
+  const promoted = await storage.promoteFromWaitlist(drop.id);
+  for (const entry of promoted) {
+    await notifyPromoted(entry, drop);
+  }
+
+  if (released + expired + promoted.length > 0) {
+    publishQueueEvent(drop.id, { type: "queue" });
+  }
+
+  const minutesLeft = Math.ceil((drop.dropTime.getTime() - now.getTime()) / 60000);
+
+  // markDropNotified fails if another instance (or an earlier tick) already claimed the batch
+  if (minutesLeft > 0 && minutesLeft <= REMINDER_MINUTES && !drop.reminderSentAt) {
+    if (await storage.markDropNotified(drop.id, "reminderSentAt")) {
+      for (const entry of await storage.getAllQueueEntries(drop.id)) {
+        if (!entry.emailVerifiedAt) continue;
+        await notifyDropReminder(entry, drop, minutesLeft);
+      }
+    }
+    return;
+  }
+
+  // Sold-out and closed drops admit nobody else
+  if (drop.status === "live") {
+    await runAdmissionWave(drop);
+  }
+}
+
+let leading = false;
+
+// Only the instance holding the scheduler leadership runs ticks; the others keep trying each tick,
+// so one of them takes over within a tick of the leader going away
+async function tick() {
+  if (!await coordinator.acquireLeadership(LEADERSHIP)) {
+    if (leading) console.log("Lost drop scheduler leadership");
+    leading = false;
+    return;
+  }
+  if (!leading) console.log("This instance now runs the drop scheduler");
+  leading = true;
+
+  await runDropScheduler();
+}
+
+export function startDropScheduler() {
+  // Skip a tick while the previous one is still sending
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+    tick()
+      .catch(error => console.error("Drop scheduler tick failed:", error))
+      .finally(() => { running = false; });
+  }, TICK_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,27 @@
+import { type Drop, type QueueEntry } from "@shared/schema";
+import { signToken, readToken } from "./signed-tokens";
+
+// Carried in the payload so an access token can never be replayed as a confirmation link
+const PURPOSE = "verify-email";
+
+export interface VerificationTokenPayload {
+  entryId: string;
+  expiresAt: Date;
+}
+
+// After this the entry is removed from the queue if its email is still unconfirmed
+export function verificationDeadline(entry: QueueEntry, drop: Drop): Date {
+  return new Date(entry.joinedAt.getTime() + drop.emailVerificationMinutes * 60 * 1000);
+}
+
+export function signVerificationToken(entry: QueueEntry, drop: Drop): string {
+  return signToken({ p: PURPOSE, e: entry.id, x: verificationDeadline(entry, drop).getTime() });
+}
+
+// Checks the signature and purpose only; the caller decides whether it has expired
+export function verifyVerificationToken(token: string): VerificationTokenPayload | null {
+  const payload = readToken(token);
+  if (payload?.p !== PURPOSE || typeof payload.e !== "string" || typeof payload.x !== "number") return null;
+
+  return { entryId: payload.e, expiresAt: new Date(payload.x) };
+}
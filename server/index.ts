@@ -1,11 +1,39 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startDropScheduler } from "./drop-scheduler";
+import { rateLimit } from "./rate-limit";
+import { joinThrottleDomain } from "./abuse";
+
+declare module "http" {
+  interface IncomingMessage {
+    rawBody?: Buffer;
+  }
+}
 
 const app = express();
-app.use(express.json());
+// Keep the exact bytes for webhook signature checks
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
+// Throttle sign-ups per client IP and per email domain (webmail providers excepted), before the join route does any work
+app.post("/api/queue/join", rateLimit({
+  windowMs: 10 * 60 * 1000,
+  max: parseInt(process.env.JOIN_RATE_LIMIT_PER_IP || "10", 10),
+  key: (req) => req.ip,
+  message: "Too many sign-ups from your network. Please try again in a few minutes.",
+}));
+app.post("/api/queue/join", rateLimit({
+  windowMs: 60 * 1000,
+  max: parseInt(process.env.JOIN_RATE_LIMIT_PER_DOMAIN || "300", 10),
+  key: (req) => joinThrottleDomain(req.body?.email),
+  message: "Too many sign-ups from this email provider right now. Please try again in a minute.",
+}));
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -67,5 +95,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startDropScheduler();
   });
 })();
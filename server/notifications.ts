@@ -0,0 +1,142 @@
+import { type Drop, type QueueEntry } from "@shared/schema";
+import { mailer, type MailMessage } from "./mailer";
+import { smsProvider } from "./sms";
+
+// Public origin used in links sent to users
+export const appUrl = () => (process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "");
+
+// The user's private status page; the token is the only key, so the link never exposes their email
+export function personalLink(entry: QueueEntry): string {
+  return `${appUrl()}/status/${encodeURIComponent(entry.statusToken)}`;
+}
+
+// Storefront link carrying the signed access token; the storefront validates it with /api/access/validate
+export function accessLink(accessToken: string): string {
+  const storefrontUrl = (process.env.STOREFRONT_URL || appUrl()).replace(/\/$/, "");
+  return `${storefrontUrl}/?${new URLSearchParams({ access_token: accessToken }).toString()}`;
+}
+
+// Confirms the entry's email and then opens the queue page; see GET /api/queue/verify-email
+export function verificationLink(token: string): string {
+  return `${appUrl()}/api/queue/verify-email?${new URLSearchParams({ token }).toString()}`;
+}
+
+// Notifications are best effort: a failed email must never fail the request that triggered it
+async function deliver(message: MailMessage) {
+  try {
+    await mailer.send(message);
+  } catch (error) {
+    console.error(`Failed to send "${message.subject}" to ${message.to}:`, error);
+  }
+}
+
+// Texts only go to numbers that opted in and haven't replied STOP since
+function canText(entry: QueueEntry): entry is QueueEntry & { phone: string } {
+  return !!entry.phone && entry.smsConsent && !entry.smsOptedOutAt;
+}
+
+async function deliverSms(entry: QueueEntry, body: string) {
+  if (!canText(entry)) return;
+
+  try {
+    await smsProvider.send({ to: entry.phone, body: `${body} Reply STOP to opt out.` });
+  } catch (error) {
+    console.error(`Failed to text ${entry.phone}:`, error);
+  }
+}
+
+// Sent on sign-up; the spot only counts once the link is opened
+export async function notifyVerifyEmail(entry: QueueEntry, drop: Drop, token: string) {
+  await deliver({
+    to: entry.email,
+    subject: `Confirm your email to keep your spot for ${drop.name}`,
+    text: [
+      `Thanks for joining the ${drop.name} ${entry.tier === "waitlist" ? "waitlist" : "queue"}. Confirm this is your email address to keep your spot:`,
+      verificationLink(token),
+      `Unconfirmed spots are released after ${drop.emailVerificationMinutes} minutes. If you didn't sign up, ignore this email.`,
+    ].join("\n\n"),
+  });
+}
+
+export async function notifyJoined(entry: QueueEntry, drop: Drop, position: number) {
+  if (entry.tier === "waitlist") {
+    await deliver({
+      to: entry.email,
+      subject: `You're #${position} on the waitlist for ${drop.name}`,
+      text: [
+        `The queue for ${drop.name} is full, so you're on the waitlist at position #${position}.`,
+        `If a spot in the queue frees up, the next person on the waitlist moves into it and we'll email you.`,
+        `Check your status any time: ${personalLink(entry)}`,
+      ].join("\n\n"),
+    });
+    return;
+  }
+
+  await deliver({
+    to: entry.email,
+    subject: `You're #${position} in line for ${drop.name}`,
+    text: [
+      `You're in the queue for ${drop.name} at position #${position}.`,
+      `The drop opens ${drop.dropTime.toUTCString()}. Your slot is held for ${drop.accessWindowMinutes} minutes once it's your turn.`,
+      `Check your position any time: ${personalLink(entry)}`,
+    ].join("\n\n"),
+  });
+}
+
+// Sent when a freed spot moves the entry from the waitlist into the queue
+export async function notifyPromoted(entry: QueueEntry, drop: Drop) {
+  await deliverSms(entry, `LOCKS SOLD: A spot opened up - you're off the waitlist and in the ${drop.name} queue: ${personalLink(entry)}`);
+
+  await deliver({
+    to: entry.email,
+    subject: `You're off the waitlist for ${drop.name}`,
+    text: [
+      `A spot opened up and you've moved from the waitlist to the end of the queue for ${drop.name}.`,
+      `Your slot is held for ${drop.accessWindowMinutes} minutes once it's your turn.`,
+      `Check your position: ${personalLink(entry)}`,
+    ].join("\n\n"),
+  });
+}
+
+// Email for users who asked to be notified, plus a text for those who opted in to SMS
+export async function notifyDropReminder(entry: QueueEntry, drop: Drop, minutesLeft: number) {
+  await deliverSms(entry, `LOCKS SOLD: ${drop.name} drops in ${minutesLeft} minutes. Your spot in line is saved: ${personalLink(entry)}`);
+
+  if (!entry.notifications) return;
+  await deliver({
+    to: entry.email,
+    subject: `${drop.name} drops in ${minutesLeft} minutes`,
+    text: [
+      `${drop.name} drops in ${minutesLeft} minutes and your spot in line is saved.`,
+      `We'll email your personal access link the moment your slot opens.`,
+      `Check your position: ${personalLink(entry)}`,
+    ].join("\n\n"),
+  });
+}
+
+// Always emailed, since it is the only place the access link is delivered; also texted to those who opted in
+export async function notifySlotOpen(entry: QueueEntry, drop: Drop, accessToken: string) {
+  const link = accessLink(accessToken);
+  await deliverSms(entry, `LOCKS SOLD: You're up! Your ${drop.name} slot is open for ${drop.accessWindowMinutes} minutes: ${link}`);
+
+  await deliver({
+    to: entry.email,
+    subject: `${drop.name} is live - your slot is open`,
+    text: [
+      `${drop.name} just dropped and your reserved slot is open now.`,
+      `It's held for ${drop.accessWindowMinutes} minutes, after which it's released to the next person in line. The link works once.`,
+      `Go to your slot: ${link}`,
+    ].join("\n\n"),
+  });
+}
+
+export async function notifyBoostRejected(entry: QueueEntry, username: string) {
+  await deliver({
+    to: entry.email,
+    subject: "We couldn't verify your Instagram share",
+    text: [
+      `We couldn't confirm a story or post from @${username} that tags us, so your boost wasn't applied.`,
+      `You can share again and resubmit from your queue page: ${personalLink(entry)}`,
+    ].join("\n\n"),
+  });
+}
@@ -0,0 +1,49 @@
+import { EventEmitter } from "events";
+import { type DropStatus } from "@shared/schema";
+import { coordinator } from "./coordinator";
+
+// Changes to a drop's queue that live clients care about
+export type QueueEvent =
+  // Sign-ups, removals, boosts or confirmations: sizes and positions may have moved
+  | { type: "queue" }
+  | { type: "status"; status: DropStatus }
+  | { type: "admission"; admitted: number };
+
+interface QueueEventMessage {
+  dropId: string;
+  event: QueueEvent;
+}
+
+const CHANNEL = "queue_events";
+
+// Streams on this instance, keyed by drop; one listener per open stream
+const local = new EventEmitter().setMaxListeners(0);
+let listening = false;
+
+// Events go out through the coordinator so streams on every instance hear them, this one's included
+export function publishQueueEvent(dropId: string, event: QueueEvent) {
+  const message: QueueEventMessage = { dropId, event };
+  coordinator.publish(CHANNEL, JSON.stringify(message))
+    .catch(error => console.error("Failed to publish queue event:", error));
+}
+
+// Returns the unsubscribe function
+export function subscribeQueueEvents(dropId: string, listener: (event: QueueEvent) => void): () => void {
+  // Instances without open streams never need the channel
+  if (!listening) {
+    listening = true;
+    coordinator.subscribe(CHANNEL, (payload) => {
+      try {
+        const message = JSON.parse(payload) as QueueEventMessage;
+        local.emit(message.dropId, message.event);
+      } catch (error) {
+        console.error("Ignoring malformed queue event:", error);
+      }
+    });
+  }
+
+  local.on(dropId, listener);
+  return () => {
+    local.off(dropId, listener);
+  };
+}
@@ -0,0 +1,76 @@
+import { once } from "events";
+import { type Response } from "express";
+import { type QueueEntry, type QueueExportColumn, type QueueExportQuery } from "@shared/schema";
+import { storage } from "./storage";
+import { formatCsvRow, type CsvValue } from "./csv";
+
+const COLUMN_HEADERS: Record<QueueExportColumn, string> = {
+  email: "Email",
+  phone: "Phone",
+  tier: "Tier",
+  position: "Position",
+  instagramUsername: "Instagram Username",
+  joinedAt: "Joined At",
+  notifications: "Notifications Opt-In",
+};
+
+function columnValue(entry: QueueEntry, column: QueueExportColumn): CsvValue {
+  switch (column) {
+    case "joinedAt":
+      return entry.joinedAt.toISOString();
+    case "notifications":
+      return !!entry.notifications;
+    default:
+      return entry[column] ?? null;
+  }
+}
+
+function formatEntry(entry: QueueEntry, query: QueueExportQuery): string {
+  if (query.format === "jsonl") {
+    const record = Object.fromEntries(query.columns.map(column => [column, columnValue(entry, column)]));
+    return JSON.stringify(record) + "\n";
+  }
+  return formatCsvRow(query.columns.map(column => columnValue(entry, column)));
+}
+
+export function exportFilename(query: QueueExportQuery, now = new Date()): string {
+  const date = now.toISOString().slice(0, 10);
+  return `queue-export-${date}.${query.format}`;
+}
+
+// Writes matching entries in join order as they come out of storage, waiting for the client to drain
+// between batches. Returns the number of rows sent; stops early if the client goes away.
+export async function streamQueueExport(res: Response, query: QueueExportQuery): Promise<number> {
+  // The response closes early only when the client disconnects
+  let aborted = false;
+  res.on("close", () => {
+    aborted = !res.writableFinished;
+  });
+
+  res.writeHead(200, {
+    "Content-Type": query.format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson; charset=utf-8",
+    "Content-Disposition": `attachment; filename="${exportFilename(query)}"`,
+    "Cache-Control": "no-store",
+  });
+
+  if (query.format === "csv") {
+    res.write(formatCsvRow(query.columns.map(column => COLUMN_HEADERS[column])));
+  }
+
+  let rows = 0;
+  const batches = storage.iterateQueueEntries({
+    dropId: query.dropId,
+    joinedFrom: query.from,
+    joinedTo: query.to,
+  });
+
+  for await (const batch of batches) {
+    if (aborted) break;
+    const ok = res.write(batch.map(entry => formatEntry(entry, query)).join(""));
+    rows += batch.length;
+    if (!ok && !aborted) await Promise.race([once(res, "drain"), once(res, "close")]);
+  }
+
+  res.end();
+  return rows;
+}
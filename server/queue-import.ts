@@ -0,0 +1,161 @@
+import { insertQueueEntrySchema, banCovers, type Drop, type InsertQueueEntry, type QueueEntry, type QueueImportOptions, type QueueImportReport, type QueueImportRow } from "@shared/schema";
+import { storage } from "./storage";
+import { parseCsv } from "./csv";
+
+// Bigger lists go in several uploads, which keeps each import's transaction short
+export const MAX_IMPORT_ROWS = 5000;
+
+// Header cells are matched ignoring case, spaces, dashes and underscores; other columns are ignored
+const HEADER_FIELDS: Record<string, keyof InsertQueueEntry> = {
+  email: "email",
+  emailaddress: "email",
+  phone: "phone",
+  phonenumber: "phone",
+  notifications: "notifications",
+  smsconsent: "smsConsent",
+};
+
+const TRUE_VALUES = ["true", "yes", "y", "1", "x"];
+const FALSE_VALUES = ["", "false", "no", "n", "0"];
+
+// Spreadsheet yes/no cells as booleans; anything else is passed through for the schema to reject
+function parseFlag(value: string): unknown {
+  const normalized = value.trim().toLowerCase();
+  if (TRUE_VALUES.includes(normalized)) return true;
+  if (FALSE_VALUES.includes(normalized)) return false;
+  return value;
+}
+
+interface ParsedImport {
+  rows: QueueImportRow[];
+  // Valid rows, first occurrence of each email only
+  valid: { row: QueueImportRow; entry: InsertQueueEntry }[];
+}
+
+// Validates every row against insertQueueEntrySchema on its own, so one bad row doesn't hide the others.
+// Emails are lowercased; a repeat of an earlier row's email is reported as a duplicate.
+export function parseQueueImport(csv: string): ParsedImport | { error: string } {
+  let records: string[][];
+  try {
+    records = parseCsv(csv);
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+
+  const [header, ...data] = records;
+  if (!header) return { error: "The file is empty" };
+
+  const fields = header.map(cell => HEADER_FIELDS[cell.trim().toLowerCase().replace(/[\s_-]/g, "")]);
+  if (!fields.includes("email")) return { error: "The file needs an email column" };
+  if (data.length > MAX_IMPORT_ROWS) return { error: `Import at most ${MAX_IMPORT_ROWS} rows at a time` };
+
+  const rows: QueueImportRow[] = [];
+  const valid: ParsedImport["valid"] = [];
+  const seen = new Map<string, number>();
+
+  data.forEach((record, index) => {
+    const values: Record<string, unknown> = {};
+    fields.forEach((field, column) => {
+      const value = record[column];
+      if (!field || value === undefined) return;
+      values[field] = field === "notifications" || field === "smsConsent" ? parseFlag(value) : value.trim();
+    });
+    const row: QueueImportRow = { row: index + 2, email: String(values.email ?? ""), status: "ready" };
+    rows.push(row);
+
+    const parsed = insertQueueEntrySchema.safeParse(values);
+    if (!parsed.success) {
+      row.status = "invalid";
+      row.errors = parsed.error.errors.map(issue => issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message);
+      return;
+    }
+
+    // The schema lowercases emails, so rows differing only in case count as duplicates
+    const email = parsed.data.email;
+    row.email = email;
+    const firstRow = seen.get(email);
+    if (firstRow !== undefined) {
+      row.status = "duplicate";
+      row.errors = [`Same email as row ${firstRow}`];
+      return;
+    }
+    seen.set(email, row.row);
+    valid.push({ row, entry: parsed.data });
+  });
+
+  return { rows, valid };
+}
+
+// First queue position for the import; storage appends when it's undefined and clamps it to the queue
+function startPosition(options: QueueImportOptions): number | undefined {
+  switch (options.placement) {
+    case "top":
+      return 1;
+    case "position":
+      return options.start;
+    default:
+      return undefined;
+  }
+}
+
+function summarize(dryRun: boolean, rows: QueueImportRow[]): QueueImportReport {
+  return {
+    dryRun,
+    created: rows.filter(row => row.status === "created" || row.status === "ready").length,
+    duplicates: rows.filter(row => row.status === "duplicate").length,
+    invalid: rows.filter(row => row.status === "invalid").length,
+    rows,
+  };
+}
+
+// Checks the file and either previews where each row would land (dry run) or writes the new entries.
+// Banned addresses are invalid and emails the drop already has are skipped, in both cases.
+export async function importQueueCsv(drop: Drop, csv: string, options: QueueImportOptions): Promise<{ report: QueueImportReport; created: QueueEntry[] } | { error: string }> {
+  const parsed = parseQueueImport(csv);
+  if ("error" in parsed) return parsed;
+
+  // An import is no way around a ban on the join form
+  const bans = await storage.getBans();
+  const { rows } = parsed;
+  const valid = parsed.valid.filter(({ row }) => {
+    const ban = bans.find(ban => banCovers(ban, row.email));
+    if (!ban) return true;
+
+    row.status = "invalid";
+    row.errors = [ban.kind === "email" ? "This email address is banned" : `Addresses at ${ban.value} are banned`];
+    return false;
+  });
+  const markExisting = (row: QueueImportRow) => {
+    row.status = "duplicate";
+    row.errors = ["Already in this drop's queue"];
+  };
+
+  if (options.dryRun) {
+    const existing = new Set(await storage.getExistingQueueEmails(drop.id, valid.map(({ entry }) => entry.email)));
+    const last = await storage.getTotalQueueSize(drop.id);
+    let position = Math.min(Math.max(startPosition(options) ?? last + 1, 1), last + 1);
+
+    for (const { row } of valid) {
+      if (existing.has(row.email)) {
+        markExisting(row);
+      } else {
+        row.position = position++;
+      }
+    }
+    return { report: summarize(true, rows), created: [] };
+  }
+
+  const result = await storage.importQueueEntries(drop.id, valid.map(({ entry }) => entry), startPosition(options));
+  const createdByEmail = new Map(result.created.map(entry => [entry.email, entry]));
+
+  for (const { row } of valid) {
+    const entry = createdByEmail.get(row.email);
+    if (entry) {
+      row.status = "created";
+      row.position = entry.position;
+    } else {
+      markExisting(row);
+    }
+  }
+  return { report: summarize(false, rows), created: result.created };
+}
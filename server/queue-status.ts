@@ -0,0 +1,187 @@
+import { type Drop, type QueueEntry, type QueueTier, type SocialVerification } from "@shared/schema";
+import { storage, type AdmissionStats } from "./storage";
+import { estimateWaitMinutes } from "./admission";
+import { getAccessStatus } from "./access-tokens";
+import { verificationDeadline } from "./email-verification";
+
+// Public queue views shared by the HTTP routes and the live event stream
+
+// Fake queue depth placed ahead of real entries when honest mode is off
+export const MOCK_BASE_SIZE = 283;
+
+// How far real positions are shifted for display; 0 in honest mode (the default)
+export async function getDisplayOffset(): Promise<number> {
+  const settings = await storage.getSettings();
+  return (settings?.honestMode ?? true) ? 0 : MOCK_BASE_SIZE;
+}
+
+// Only queue positions carry the mock offset; the waitlist is numbered on its own
+export function displayPosition(entry: QueueEntry, offset: number): number {
+  return entry.tier === "queue" ? entry.position + offset : entry.position;
+}
+
+// Helper function to mask email addresses for privacy
+export function maskEmail(email: string): string {
+  const [localPart, domain] = email.split('@');
+  if (localPart.length <= 3) {
+    return `${localPart[0]}***@${domain}`;
+  }
+  return `${localPart.slice(0, 2)}***@${domain}`;
+}
+
+// Queue size and the top of the line for a drop's public page
+export async function getQueueStats(drop: Drop) {
+  const totalSize = await storage.getTotalQueueSize(drop.id);
+  const waitlistSize = await storage.getTotalQueueSize(drop.id, "waitlist");
+  const entries = (await storage.getAllQueueEntries(drop.id)).filter(entry => entry.tier === "queue");
+  // Further sign-ups go to the waitlist, or are turned away without one
+  const isFull = !!drop.maxQueueSize && totalSize >= drop.maxQueueSize;
+
+  // Add real entries with masked emails
+  const offset = await getDisplayOffset();
+  const realEntries = entries.map(entry => ({
+    position: entry.position + offset,
+    email: maskEmail(entry.email),
+    joinedAt: entry.joinedAt,
+  }));
+
+  // Honest mode: stats reflect only real queue entries
+  if (offset === 0) {
+    return {
+      totalSize,
+      waitlistSize,
+      isFull,
+      topEntries: realEntries.slice(0, 15),
+      drop,
+    };
+  }
+
+  // Always show consistent queue size with mock data base
+  const consistentTotal = MOCK_BASE_SIZE + totalSize;
+
+  // Create a mix of mock and real entries for display
+  const mockEntries = [
+    { position: 1, email: "alex***@gmail.com", joinedAt: new Date(Date.now() - 120 * 60000) },
+    { position: 2, email: "jordan***@yahoo.com", joinedAt: new Date(Date.now() - 110 * 60000) },
+    { position: 3, email: "sam***@hotmail.com", joinedAt: new Date(Date.now() - 100 * 60000) },
+    { position: 4, email: "casey***@gmail.com", joinedAt: new Date(Date.now() - 90 * 60000) },
+    { position: 5, email: "taylor***@outlook.com", joinedAt: new Date(Date.now() - 85 * 60000) },
+    { position: 6, email: "morgan***@gmail.com", joinedAt: new Date(Date.now() - 80 * 60000) },
+    { position: 7, email: "riley***@yahoo.com", joinedAt: new Date(Date.now() - 75 * 60000) },
+    { position: 8, email: "blake***@icloud.com", joinedAt: new Date(Date.now() - 70 * 60000) },
+    { position: 9, email: "jamie***@gmail.com", joinedAt: new Date(Date.now() - 65 * 60000) },
+    { position: 10, email: "drew***@hotmail.com", joinedAt: new Date(Date.now() - 60 * 60000) },
+    { position: 11, email: "avery***@gmail.com", joinedAt: new Date(Date.now() - 55 * 60000) },
+    { position: 12, email: "quinn***@yahoo.com", joinedAt: new Date(Date.now() - 50 * 60000) },
+    { position: 13, email: "sage***@outlook.com", joinedAt: new Date(Date.now() - 45 * 60000) },
+    { position: 14, email: "rowan***@gmail.com", joinedAt: new Date(Date.now() - 40 * 60000) },
+    { position: 15, email: "phoenix***@icloud.com", joinedAt: new Date(Date.now() - 35 * 60000) },
+  ];
+
+  // Combine mock entries with real entries, sort by position
+  const allEntries = [...mockEntries, ...realEntries].sort((a, b) => a.position - b.position);
+  const displayEntries = allEntries.slice(0, 15); // Show top 15 for scrollable list
+
+  // Use the drop time for dynamic queue growth
+  const timeUntilDrop = drop.dropTime.getTime() - Date.now();
+
+  // Simulate queue growth - add 1 person every 20-30 seconds during the hour before drop
+  const minutesUntilDrop = Math.max(0, timeUntilDrop / (1000 * 60));
+  let simulatedTotal = consistentTotal;
+
+  // Only grow if we're within 1 hour of drop time
+  if (minutesUntilDrop <= 60) {
+    const secondsUntilDrop = Math.max(0, timeUntilDrop / 1000);
+    // Add 1 person roughly every 25 seconds during the last hour
+    const additionalPeople = Math.floor((3600 - secondsUntilDrop) / 25);
+    simulatedTotal = Math.max(consistentTotal, Math.min(293, consistentTotal + additionalPeople));
+  }
+
+  return {
+    totalSize: simulatedTotal,
+    waitlistSize,
+    isFull,
+    topEntries: displayEntries,
+    drop,
+  };
+}
+
+// The parts of an entry's status that are the same for everyone in a drop, read once so many entries'
+// statuses (e.g. every client of the live stream) can be worked out without querying per entry
+export interface DropStatusContext {
+  drop: Drop;
+  offset: number;
+  admission: AdmissionStats;
+  // Positions of confirmed entries still waiting for admission, ascending, per tier
+  waiting: Record<QueueTier, number[]>;
+  entriesByToken: Map<string, QueueEntry>;
+}
+
+export async function getDropStatusContext(drop: Drop): Promise<DropStatusContext> {
+  // Each tier comes back by position, so the waiting lists are already in order
+  const entries = await storage.getAllQueueEntries(drop.id);
+  const waiting: Record<QueueTier, number[]> = { queue: [], waitlist: [] };
+  for (const entry of entries) {
+    if (!entry.admittedAt && entry.emailVerifiedAt) waiting[entry.tier].push(entry.position);
+  }
+
+  return {
+    drop,
+    offset: await getDisplayOffset(),
+    admission: await storage.getAdmissionStats(drop.id),
+    waiting,
+    entriesByToken: new Map(entries.map(entry => [entry.statusToken, entry])),
+  };
+}
+
+// How many of the ascending positions come before the given one
+function countBefore(positions: number[], position: number): number {
+  let low = 0;
+  let high = positions.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (positions[mid] < position) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+function buildEntryStatus(entry: QueueEntry, drop: Drop, offset: number, peopleAhead: number, admission: AdmissionStats, latestClaim: SocialVerification | undefined) {
+  return {
+    dropId: entry.dropId,
+    tier: entry.tier,
+    position: displayPosition(entry, offset),
+    email: entry.email,
+    estimatedWaitTime: entry.admittedAt ? 0 : estimateWaitMinutes(drop, peopleAhead, admission),
+    peopleAhead,
+    admittedAt: entry.admittedAt,
+    emailVerified: !!entry.emailVerifiedAt,
+    verifyBy: entry.emailVerifiedAt ? null : verificationDeadline(entry, drop),
+    boostStatus: latestClaim?.status ?? "none",
+    accessStatus: getAccessStatus(entry),
+    accessExpiresAt: entry.accessTokenExpiresAt,
+  };
+}
+
+// One user's place in line, as shown on their status page
+export async function getEntryStatus(entry: QueueEntry, drop: Drop) {
+  const offset = await getDisplayOffset();
+  const latestClaim = await storage.getLatestSocialVerification(entry.id);
+
+  // Only people still waiting for admission count as ahead; admitted entries wait for nobody
+  const peopleAhead = entry.admittedAt ? 0 : await storage.countWaitingAhead(drop.id, entry.tier, entry.position) + offset;
+  return buildEntryStatus(entry, drop, offset, peopleAhead, await storage.getAdmissionStats(drop.id), latestClaim);
+}
+
+// Same as getEntryStatus, with everything but the entry's boost claim taken from the drop's context
+export async function getEntryStatusInContext(entry: QueueEntry, context: DropStatusContext) {
+  const latestClaim = await storage.getLatestSocialVerification(entry.id);
+
+  // Matches storage.countWaitingAhead: the whole waiting queue is ahead of anyone on the waitlist
+  const { queue, waitlist } = context.waiting;
+  const waitingAhead = entry.tier === "queue"
+    ? countBefore(queue, entry.position)
+    : queue.length + countBefore(waitlist, entry.position);
+  const peopleAhead = entry.admittedAt ? 0 : waitingAhead + context.offset;
+  return buildEntryStatus(entry, context.drop, context.offset, peopleAhead, context.admission, latestClaim);
+}
@@ -0,0 +1,101 @@
+import { type Request, type Response } from "express";
+import { storage } from "./storage";
+import { subscribeQueueEvents, type QueueEvent } from "./queue-events";
+import { getQueueStats, getDropStatusContext, getEntryStatusInContext, type DropStatusContext } from "./queue-status";
+
+// Bursts of changes (e.g. a wave of sign-ups) reach each client as at most one refresh per second
+const REFRESH_MS = 1000;
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_MS = 25 * 1000;
+
+type QueueStats = Awaited<ReturnType<typeof getQueueStats>>;
+
+type SharedCache<T> = Map<string, { at: number; value: Promise<T> }>;
+
+// Per-drop results are the same for every client of a drop, so refreshes within a second share one computation
+function shared<T>(cache: SharedCache<T>, dropId: string, compute: () => Promise<T>): Promise<T> {
+  const cached = cache.get(dropId);
+  if (cached && Date.now() - cached.at < REFRESH_MS) return cached.value;
+
+  const value = compute();
+  cache.set(dropId, { at: Date.now(), value });
+  value.catch(() => cache.delete(dropId));
+  return value;
+}
+
+const statsCache: SharedCache<QueueStats | null> = new Map();
+// What status-token clients share: positions, display offset and admission stats
+const statusContextCache: SharedCache<DropStatusContext> = new Map();
+
+function sharedQueueStats(dropId: string): Promise<QueueStats | null> {
+  return shared(statsCache, dropId, () => storage.getDrop(dropId).then(drop => drop ? getQueueStats(drop) : null));
+}
+
+// Server-Sent Events for a drop's queue page. Every change sends fresh `stats` (the /api/queue/stats body)
+// and, for a status token, `position` (the /api/queue/status body); `status` and `admission` events are
+// passed through as they happen, and `removed` ends the stream once the token's entry is gone.
+export function streamQueueEvents(req: Request, res: Response, dropId: string, statusToken?: string) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    // Stop nginx-style proxies from buffering the stream
+    "X-Accel-Buffering": "no",
+  });
+
+  let closed = false;
+  let lastRefresh = 0;
+  let refreshTimer: NodeJS.Timeout | undefined;
+
+  const send = (event: string, data: unknown) => {
+    if (closed || res.writableEnded) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const refresh = async () => {
+    lastRefresh = Date.now();
+
+    const stats = await sharedQueueStats(dropId);
+    if (closed || !stats) return;
+    send("stats", stats);
+
+    if (!statusToken) return;
+    const context = await shared(statusContextCache, dropId, () => getDropStatusContext(stats.drop));
+    // The shared context may predate a sign-up from the last second, so check before calling the entry gone
+    const entry = context.entriesByToken.get(statusToken) ?? await storage.getQueueEntryByStatusToken(statusToken);
+    if (closed) return;
+    if (!entry) {
+      send("removed", {});
+      res.end();
+      return;
+    }
+    send("position", await getEntryStatusInContext(entry, context));
+  };
+
+  const scheduleRefresh = () => {
+    if (closed || refreshTimer) return;
+    refreshTimer = setTimeout(() => {
+      refreshTimer = undefined;
+      refresh().catch(error => console.error("Queue stream refresh failed:", error));
+    }, Math.max(0, lastRefresh + REFRESH_MS - Date.now()));
+  };
+
+  const unsubscribe = subscribeQueueEvents(dropId, (event: QueueEvent) => {
+    if (event.type !== "queue") send(event.type, event);
+    scheduleRefresh();
+  });
+
+  const heartbeat = setInterval(() => {
+    if (!res.writableEnded) res.write(": ping\n\n");
+  }, HEARTBEAT_MS);
+
+  req.on("close", () => {
+    closed = true;
+    unsubscribe();
+    clearInterval(heartbeat);
+    clearTimeout(refreshTimer);
+  });
+
+  // Start from a full snapshot so the client never waits for the first change
+  scheduleRefresh();
+}
@@ -0,0 +1,48 @@
+import { type Request, type RequestHandler } from "express";
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  // Bucket a request counts against; requests without one aren't limited
+  key: (req: Request) => string | undefined;
+  message: string;
+}
+
+interface RateWindow {
+  count: number;
+  resetAt: number;
+}
+
+// Fixed-window request counter kept in memory, so each server instance enforces its own limit
+export function rateLimit({ windowMs, max, key, message }: RateLimitOptions): RequestHandler {
+  const windows = new Map<string, RateWindow>();
+
+  // Forget finished windows so one-off visitors don't accumulate
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    windows.forEach((window, bucket) => {
+      if (window.resetAt <= now) windows.delete(bucket);
+    });
+  }, windowMs);
+  sweep.unref();
+
+  return (req, res, next) => {
+    const bucket = key(req);
+    if (!bucket) return next();
+
+    const now = Date.now();
+    let window = windows.get(bucket);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(bucket, window);
+    }
+
+    window.count++;
+    if (window.count > max) {
+      res.setHeader("Retry-After", Math.ceil((window.resetAt - now) / 1000));
+      return res.status(429).json({ message });
+    }
+
+    next();
+  };
+}
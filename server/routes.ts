@@ -1,10 +1,29 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertQueueEntrySchema, insertDropSchema, insertSettingsSchema } from "@shared/schema";
+import { setupAuth, requireRole, hashPassword, toPublicAdmin } from "./auth";
+import { recordAudit } from "./audit";
+import { socialVerifier, type VerificationResult } from "./social-verifier";
+import { notifyJoined, notifyVerifyEmail, notifySlotOpen, notifyBoostRejected, appUrl, personalLink } from "./notifications";
+import { smsProvider } from "./sms";
+import { signAccessToken, verifyAccessToken, getAccessStatus } from "./access-tokens";
+import { estimateWaitMinutes } from "./admission";
+import { shopifyClient, queueEntryIdFromOrder, type ShopifyOrderWebhook } from "./shopify";
+import { challengeVerifier } from "./challenge-verifier";
+import { isDisposableEmail, collectAbuseSignals } from "./abuse";
+import { signVerificationToken, verifyVerificationToken, verificationDeadline } from "./email-verification";
+import { getDisplayOffset, displayPosition, getQueueStats, getEntryStatus } from "./queue-status";
+import { publishQueueEvent } from "./queue-events";
+import { streamQueueEvents } from "./queue-stream";
+import { streamQueueExport } from "./queue-export";
+import { importQueueCsv } from "./queue-import";
+import { joinQueueSchema, insertDropSchema, updateDropSchema, dropScheduleSchema, insertBanSchema, moveQueueEntrySchema, adminQueueQuerySchema, queueExportQuerySchema, queueImportOptionsSchema, joinTimelineQuerySchema, insertSettingsSchema, insertAdminUserSchema, adminRoles, verificationStatuses, canTransitionDrop, isDropJoinable, type VerificationStatus, type DropStatus } from "@shared/schema";
 import { ZodError } from "zod";
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions, login/logout and the guard for every /api/admin route
+  await setupAuth(app);
+
   // Direct download route for Vercel deployment package
   app.get("/download-vercel", (req, res) => {
     const filePath = "./locks-sold-vercel.zip";
@@ -15,76 +34,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
-  // Helper function to mask email addresses for privacy
-  const maskEmail = (email: string): string => {
-    const [localPart, domain] = email.split('@');
-    if (localPart.length <= 3) {
-      return `${localPart[0]}***@${domain}`;
-    }
-    return `${localPart.slice(0, 2)}***@${domain}`;
+  // Whether the given admin is the only remaining owner
+  const isLastOwner = async (id: string): Promise<boolean> => {
+    const owners = (await storage.getAllAdminUsers()).filter(user => user.role === "owner");
+    return owners.length === 1 && owners[0].id === id;
+  };
+
+  // Standard carrier opt-out and opt-in keywords
+  const SMS_STOP_KEYWORDS = ["STOP", "STOPALL", "UNSUBSCRIBE", "CANCEL", "END", "QUIT"];
+  const SMS_START_KEYWORDS = ["START", "YES", "UNSTOP"];
+
+  // Why a drop isn't taking sign-ups right now
+  const JOIN_CLOSED_MESSAGES: Record<DropStatus, string> = {
+    scheduled: "The queue isn't open yet",
+    queue_open: "",
+    live: "",
+    sold_out: "This drop is sold out",
+    closed: "This drop has closed",
   };
 
-  // Get queue stats
-  app.get("/api/queue/stats", async (req, res) => {
+  // Optional drop timestamps arrive as ISO strings; empty values clear them
+  const parseOptionalDate = (value: unknown) => value ? new Date(value as string) : null;
+
+  // Get the drop currently shown on the public page
+  app.get("/api/drops/active", async (req, res) => {
     try {
-      const totalSize = await storage.getTotalQueueSize();
-      const entries = await storage.getAllQueueEntries();
-      
-      // Always show consistent queue size with mock data base
-      const mockBaseSize = 283;
-      const consistentTotal = Math.max(mockBaseSize, totalSize);
-      
-      // Create a mix of mock and real entries for display
-      const mockEntries = [
-        { position: 1, email: "alex***@gmail.com", joinedAt: new Date(Date.now() - 120 * 60000) },
-        { position: 2, email: "jordan***@yahoo.com", joinedAt: new Date(Date.now() - 110 * 60000) },
-        { position: 3, email: "sam***@hotmail.com", joinedAt: new Date(Date.now() - 100 * 60000) },
-        { position: 4, email: "casey***@gmail.com", joinedAt: new Date(Date.now() - 90 * 60000) },
-        { position: 5, email: "taylor***@outlook.com", joinedAt: new Date(Date.now() - 85 * 60000) },
-        { position: 6, email: "morgan***@gmail.com", joinedAt: new Date(Date.now() - 80 * 60000) },
-        { position: 7, email: "riley***@yahoo.com", joinedAt: new Date(Date.now() - 75 * 60000) },
-        { position: 8, email: "blake***@icloud.com", joinedAt: new Date(Date.now() - 70 * 60000) },
-        { position: 9, email: "jamie***@gmail.com", joinedAt: new Date(Date.now() - 65 * 60000) },
-        { position: 10, email: "drew***@hotmail.com", joinedAt: new Date(Date.now() - 60 * 60000) },
-        { position: 11, email: "avery***@gmail.com", joinedAt: new Date(Date.now() - 55 * 60000) },
-        { position: 12, email: "quinn***@yahoo.com", joinedAt: new Date(Date.now() - 50 * 60000) },
-        { position: 13, email: "sage***@outlook.com", joinedAt: new Date(Date.now() - 45 * 60000) },
-        { position: 14, email: "rowan***@gmail.com", joinedAt: new Date(Date.now() - 40 * 60000) },
-        { position: 15, email: "phoenix***@icloud.com", joinedAt: new Date(Date.now() - 35 * 60000) },
-      ];
-
-      // Add real entries with masked emails
-      const realEntries = entries.map(entry => ({
-        position: entry.position,
-        email: maskEmail(entry.email),
-        joinedAt: entry.joinedAt,
-      }));
-
-      // Combine mock entries with real entries, sort by position
-      const allEntries = [...mockEntries, ...realEntries].sort((a, b) => a.position - b.position);
-      const displayEntries = allEntries.slice(0, 15); // Show top 15 for scrollable list
-
-      // Get active drop for dynamic queue growth
       const activeDrop = await storage.getActiveDrop();
-      const timeUntilDrop = activeDrop ? activeDrop.dropTime.getTime() - Date.now() : 0;
-      
-      // Simulate queue growth - add 1 person every 20-30 seconds during the hour before drop
-      const minutesUntilDrop = Math.max(0, timeUntilDrop / (1000 * 60));
-      let simulatedTotal = consistentTotal;
-      
-      // Only grow if we're within 1 hour of drop time
-      if (minutesUntilDrop <= 60) {
-        const secondsUntilDrop = Math.max(0, timeUntilDrop / 1000);
-        // Add 1 person roughly every 25 seconds during the last hour
-        const additionalPeople = Math.floor((3600 - secondsUntilDrop) / 25);
-        simulatedTotal = Math.min(293, consistentTotal + additionalPeople);
+      if (!activeDrop) {
+        return res.status(404).json({ message: "No active drop" });
       }
 
+      res.json(activeDrop);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get active drop" });
+    }
+  });
+
+  // Public subset of settings needed by the queue page
+  app.get("/api/settings", async (req, res) => {
+    try {
+      const settings = await storage.getSettings();
       res.json({
-        totalSize: simulatedTotal,
-        topEntries: displayEntries,
-        activeDrop,
+        instagramPostUrl: settings?.instagramPostUrl || null,
+        instagramBoostEnabled: settings?.instagramBoostEnabled || false,
+        instagramBoostSize: settings?.instagramBoostSize ?? 100,
+        // The page leaves out made-up figures in honest mode
+        honestMode: settings?.honestMode ?? true,
+        // Bot challenge the join form must render, if any
+        challenge: challengeVerifier.widget,
       });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get settings" });
+    }
+  });
+
+  // Get queue stats for a drop
+  app.get("/api/queue/stats/:dropId", async (req, res) => {
+    try {
+      const drop = await storage.getDrop(req.params.dropId);
+      if (!drop) {
+        return res.status(404).json({ message: "Drop not found" });
+      }
+
+      res.json(await getQueueStats(drop));
     } catch (error) {
       res.status(500).json({ message: "Failed to get queue stats" });
     }
@@ -93,21 +105,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Join queue
   app.post("/api/queue/join", async (req, res) => {
     try {
-      const validatedData = insertQueueEntrySchema.parse(req.body);
-      
-      // Check if queue is full
-      const totalSize = await storage.getTotalQueueSize();
-      if (totalSize >= 300) {
-        return res.status(400).json({ message: "Queue is full" });
+      const { dropId, challengeToken, ...validatedData } = joinQueueSchema.parse(req.body);
+
+      const drop = await storage.getDrop(dropId);
+      if (!drop) {
+        return res.status(404).json({ message: "Drop not found" });
+      }
+
+      if (!isDropJoinable(drop.status)) {
+        return res.status(400).json({ message: JOIN_CLOSED_MESSAGES[drop.status] });
+      }
+
+      if (isDisposableEmail(validatedData.email)) {
+        return res.status(400).json({ message: "Please use a permanent email address" });
       }
 
-      const entry = await storage.createQueueEntry(validatedData);
+      if (await storage.findBanForEmail(validatedData.email)) {
+        return res.status(403).json({ message: "This email address can't join the queue" });
+      }
+
+      const challenge = await challengeVerifier.verify(challengeToken, req.ip);
+      if (!challenge.success) {
+        return res.status(400).json({ message: "Please complete the verification challenge" });
+      }
+
+      // Recorded for moderators; signals flag an entry for review but never block it
+      const signupIp = req.ip ?? null;
+      const userAgent = req.get("user-agent") ?? null;
+      const abuseSignals = await collectAbuseSignals({ dropId: drop.id, email: validatedData.email, ip: signupIp, userAgent });
+      
+      // The drop's max queue size is enforced by the storage layer, which waitlists or rejects past it
+      const offset = await getDisplayOffset();
+      const entry = await storage.createQueueEntry(drop.id, validatedData, { signupIp, userAgent, abuseSignals });
+      const position = displayPosition(entry, offset);
+      const peopleAhead = await storage.countWaitingAhead(drop.id, entry.tier, entry.position) + offset;
+
+      // The spot only counts once the emailed link is opened; sent in the background so a slow mail server doesn't hold up the join
+      void notifyVerifyEmail(entry, drop, signVerificationToken(entry, drop));
+      publishQueueEvent(drop.id, { type: "queue" });
       
       res.json({
         id: entry.id,
-        position: entry.position,
+        dropId: entry.dropId,
+        tier: entry.tier,
+        position,
         email: entry.email,
-        estimatedWaitTime: Math.ceil(entry.position / 10), // ~10 people per minute
+        // Key for GET /api/queue/status/:token and the /status/:token page
+        statusToken: entry.statusToken,
+        emailVerified: false,
+        verifyBy: verificationDeadline(entry, drop),
+        estimatedWaitTime: estimateWaitMinutes(drop, peopleAhead, await storage.getAdmissionStats(drop.id)),
       });
     } catch (error) {
       if (error instanceof ZodError) {
@@ -120,45 +167,104 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof Error && error.message === "Email already exists in queue") {
         return res.status(400).json({ message: "Email already exists in queue" });
       }
+
+      if (error instanceof Error && error.message === "Queue is full") {
+        return res.status(400).json({ message: "Queue is full" });
+      }
       
       res.status(500).json({ message: "Failed to join queue" });
     }
   });
 
-  // Get user position by email
-  app.get("/api/queue/position/:email", async (req, res) => {
+  // Magic link from the confirmation email: confirms the entry, then opens the queue page with the result
+  app.get("/api/queue/verify-email", async (req, res) => {
+    const failed = (reason: "expired" | "invalid") => res.redirect(`${appUrl()}/?${new URLSearchParams({ verification: reason }).toString()}`);
+
+    try {
+      const payload = typeof req.query.token === "string" ? verifyVerificationToken(req.query.token) : null;
+      if (!payload) return failed("invalid");
+
+      const entry = await storage.getQueueEntry(payload.entryId);
+      if (!entry) return failed("expired");
+
+      // Opening the link again is harmless
+      if (entry.emailVerifiedAt) {
+        return res.redirect(`${personalLink(entry)}?verification=confirmed`);
+      }
+      if (payload.expiresAt <= new Date()) return failed("expired");
+
+      const verified = await storage.verifyQueueEntryEmail(entry.id);
+      const drop = await storage.getDrop(entry.dropId);
+      // Removed by the expiry sweep in the meantime
+      if (!verified || !drop) return failed("expired");
+
+      void notifyJoined(verified, drop, displayPosition(verified, await getDisplayOffset()));
+      // Confirmed entries now count towards everyone's people-ahead
+      publishQueueEvent(drop.id, { type: "queue" });
+      res.redirect(`${personalLink(verified)}?verification=confirmed`);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to verify email" });
+    }
+  });
+
+  // Live updates for the queue page; with ?token= the stream also carries that user's position
+  app.get("/api/queue/events/:dropId", async (req, res) => {
     try {
-      const { email } = req.params;
-      const entry = await storage.getQueueEntryByEmail(email);
-      
+      const drop = await storage.getDrop(req.params.dropId);
+      if (!drop) {
+        return res.status(404).json({ message: "Drop not found" });
+      }
+
+      const token = typeof req.query.token === "string" ? req.query.token : undefined;
+      if (token) {
+        const entry = await storage.getQueueEntryByStatusToken(token);
+        if (!entry || entry.dropId !== drop.id) {
+          return res.status(404).json({ message: "Status link not found" });
+        }
+      }
+
+      streamQueueEvents(req, res, drop.id, token);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to open queue stream" });
+    }
+  });
+
+  // A user's place in line, looked up by the private status token from their join response or emails
+  app.get("/api/queue/status/:token", async (req, res) => {
+    try {
+      const entry = await storage.getQueueEntryByStatusToken(req.params.token);
       if (!entry) {
-        return res.status(404).json({ message: "Email not found in queue" });
+        return res.status(404).json({ message: "Status link not found" });
       }
 
-      res.json({
-        position: entry.position,
-        email: entry.email,
-        estimatedWaitTime: Math.ceil(entry.position / 10),
-        peopleAhead: entry.position - 1,
-      });
+      const drop = await storage.getDrop(entry.dropId);
+      if (!drop) {
+        return res.status(404).json({ message: "Drop not found" });
+      }
+
+      res.json(await getEntryStatus(entry, drop));
     } catch (error) {
-      res.status(500).json({ message: "Failed to get position" });
+      res.status(500).json({ message: "Failed to get queue status" });
     }
   });
 
-  // Instagram verification
+  // Instagram verification; the claim is made with the entry's private status token, so only its owner can file one
   app.post("/api/queue/instagram-verify", async (req, res) => {
     try {
-      const { email, instagramUsername } = req.body;
+      const { token, instagramUsername } = req.body;
       
-      if (!email || !instagramUsername) {
-        return res.status(400).json({ message: "Email and Instagram username are required" });
+      if (typeof token !== "string" || !token || !instagramUsername) {
+        return res.status(400).json({ message: "Status token and Instagram username are required" });
       }
 
-      // Check if user exists in queue
-      const existingEntry = await storage.getQueueEntryByEmail(email);
+      const existingEntry = await storage.getQueueEntryByStatusToken(token);
       if (!existingEntry) {
-        return res.status(404).json({ message: "Email not found in queue" });
+        return res.status(404).json({ message: "Status link not found" });
+      }
+
+      // Unconfirmed entries don't hold a spot yet, so there is nothing to boost
+      if (!existingEntry.emailVerifiedAt) {
+        return res.status(403).json({ message: "Confirm your email before claiming a boost" });
       }
 
       // Check if user already used Instagram boost
@@ -166,16 +272,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Instagram boost already used for this email" });
       }
 
-      // Update the entry with Instagram info and boost position
-      const updatedEntry = await storage.updateQueueEntryInstagram(email, instagramUsername);
+      const settings = await storage.getSettings();
+      if (!settings?.instagramBoostEnabled || !settings.instagramPostUrl) {
+        return res.status(400).json({ message: "Instagram boost is not enabled" });
+      }
+
+      const previous = await storage.getLatestSocialVerification(existingEntry.id);
+      if (previous?.status === "pending") {
+        return res.status(400).json({ message: "Your Instagram share is already being verified" });
+      }
+
+      const username = String(instagramUsername).replace(/^@/, "");
+      const verification = await storage.createSocialVerification({
+        queueEntryId: existingEntry.id,
+        platform: "instagram",
+        username,
+      });
+
+      let result: VerificationResult;
+      try {
+        result = await socialVerifier.verifyShare({
+          username,
+          postUrl: settings.instagramPostUrl,
+          since: existingEntry.joinedAt,
+        });
+      } catch (error) {
+        // Keep the claim pending so it can be retried or reviewed instead of losing it
+        console.error("Instagram verification failed:", error);
+        result = { status: "pending", detail: error instanceof Error ? error.message : "Verifier error" };
+      }
+
+      // With manual review on, the automated result is only a hint for moderators
+      if (settings.boostManualReview && result.status !== "pending") {
+        result = { status: "pending", detail: `Automated check: ${result.status}${result.detail ? ` - ${result.detail}` : ""}` };
+      }
+      await storage.updateSocialVerificationStatus(verification.id, result.status, result.detail);
+
+      if (result.status === "rejected") {
+        return res.json({
+          status: "rejected",
+          message: "We couldn't find your share yet. Make sure your story tags us and try again.",
+        });
+      }
+
+      if (result.status === "pending") {
+        return res.json({
+          status: "pending",
+          message: "Thanks! Your boost is pending review and will be applied once a moderator approves it.",
+        });
+      }
+
+      // Approved: update the entry with Instagram info and move it up by the configured boost
+      const updatedEntry = await storage.updateQueueEntryInstagram(existingEntry.dropId, existingEntry.email, username, settings.instagramBoostSize);
       
       if (!updatedEntry) {
         return res.status(500).json({ message: "Failed to update Instagram information" });
       }
+      publishQueueEvent(existingEntry.dropId, { type: "queue" });
 
       res.json({
-        success: true,
-        newPosition: updatedEntry.position,
+        status: "approved",
+        newPosition: displayPosition(updatedEntry, await getDisplayOffset()),
         positionsSkipped: existingEntry.position - updatedEntry.position,
         message: `Successfully verified! You moved up ${existingEntry.position - updatedEntry.position} spots!`
       });
@@ -184,6 +341,113 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Storefront check of a reserved-access token; does not use it up
+  app.post("/api/access/validate", async (req, res) => {
+    try {
+      const payload = typeof req.body.token === "string" ? verifyAccessToken(req.body.token) : null;
+      const entry = payload && await storage.getQueueEntry(payload.entryId);
+
+      // A re-issued token invalidates older ones for the same entry
+      if (!payload || !entry || entry.accessTokenId !== payload.tokenId) {
+        return res.status(400).json({ valid: false, status: "invalid", message: "Invalid access token" });
+      }
+
+      const status = getAccessStatus(entry);
+      res.json({
+        valid: status === "open",
+        status,
+        entryId: entry.id,
+        dropId: entry.dropId,
+        email: entry.email,
+        expiresAt: entry.accessTokenExpiresAt,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to validate access token" });
+    }
+  });
+
+  // Uses up a reserved-access token, e.g. when the storefront starts the checkout
+  app.post("/api/access/redeem", async (req, res) => {
+    try {
+      const payload = typeof req.body.token === "string" ? verifyAccessToken(req.body.token) : null;
+      if (!payload) {
+        return res.status(400).json({ message: "Invalid access token" });
+      }
+
+      const entry = await storage.redeemAccessToken(payload.entryId, payload.tokenId);
+      if (!entry) {
+        const current = await storage.getQueueEntry(payload.entryId);
+        const status = current && current.accessTokenId === payload.tokenId ? getAccessStatus(current) : "invalid";
+        return res.status(409).json({ status, message: "Access token is no longer valid" });
+      }
+
+      res.json({
+        status: getAccessStatus(entry),
+        entryId: entry.id,
+        dropId: entry.dropId,
+        email: entry.email,
+        redeemedAt: entry.accessTokenRedeemedAt,
+        // Draft order holding the drop's product for this entry, when the drop is linked to Shopify
+        checkoutUrl: entry.shopifyCheckoutUrl,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to redeem access token" });
+    }
+  });
+
+  // Inbound SMS webhook (Twilio-style form post); honors STOP/START replies
+  app.post("/api/sms/inbound", async (req, res) => {
+    try {
+      const params = req.body as Record<string, string>;
+      const signature = req.get("X-Twilio-Signature");
+      if (!smsProvider.verifyInbound(`${appUrl()}${req.originalUrl}`, params, signature)) {
+        return res.status(403).json({ message: "Invalid signature" });
+      }
+
+      const from = params.From;
+      const keyword = (params.Body || "").trim().toUpperCase();
+      if (from && SMS_STOP_KEYWORDS.includes(keyword)) {
+        await storage.setSmsOptOut(from, true);
+      } else if (from && SMS_START_KEYWORDS.includes(keyword)) {
+        await storage.setSmsOptOut(from, false);
+      }
+
+      // Empty TwiML: the carrier-level STOP/START confirmations are sent by the provider
+      res.type("text/xml").send("<Response></Response>");
+    } catch (error) {
+      res.status(500).json({ message: "Failed to handle inbound SMS" });
+    }
+  });
+
+  // Shopify orders/create webhook; marks the queue entry behind a completed draft order as purchased
+  app.post("/api/shopify/webhooks/orders-create", async (req, res) => {
+    try {
+      // Without SHOPIFY_WEBHOOK_SECRET nothing can be verified, so nothing is accepted
+      if (!shopifyClient.webhooksEnabled) {
+        return res.status(503).json({ message: "Shopify webhooks are not configured" });
+      }
+
+      if (!req.rawBody || !shopifyClient.verifyWebhook(req.rawBody, req.get("X-Shopify-Hmac-Sha256"))) {
+        return res.status(401).json({ message: "Invalid signature" });
+      }
+
+      // Acknowledge other topics so Shopify doesn't keep retrying them
+      if (req.get("X-Shopify-Topic") !== "orders/create") {
+        return res.json({ received: true });
+      }
+
+      const order = req.body as ShopifyOrderWebhook;
+      const entryId = queueEntryIdFromOrder(order);
+      if (entryId && await storage.markEntryPurchased(entryId, String(order.id))) {
+        console.log(`Queue entry ${entryId} purchased in Shopify order ${order.id}`);
+      }
+
+      res.json({ received: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to handle Shopify webhook" });
+    }
+  });
+
   // Admin routes for drop management
   app.get("/api/admin/drops", async (req, res) => {
     try {
@@ -194,14 +458,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/admin/drops", async (req, res) => {
+  app.post("/api/admin/drops", requireRole("operator"), async (req, res) => {
     try {
       const validatedData = insertDropSchema.parse({
         ...req.body,
         dropTime: new Date(req.body.dropTime),
+        queueOpensAt: parseOptionalDate(req.body.queueOpensAt),
+        closesAt: parseOptionalDate(req.body.closesAt),
       });
       
       const drop = await storage.createDrop(validatedData);
+      await recordAudit(req, "drop.create", "drop", drop.id, null, drop);
       res.json(drop);
     } catch (error) {
       if (error instanceof ZodError) {
@@ -214,64 +481,421 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/admin/drops/:id", async (req, res) => {
+  app.put("/api/admin/drops/:id", requireRole("operator"), async (req, res) => {
     try {
       const { id } = req.params;
-      const updates = { ...req.body };
-      if (updates.dropTime) {
-        updates.dropTime = new Date(updates.dropTime);
+      const body = { ...req.body };
+      if (body.dropTime) {
+        body.dropTime = new Date(body.dropTime);
+      }
+      for (const field of ["queueOpensAt", "closesAt"]) {
+        if (field in body) {
+          body[field] = parseOptionalDate(body[field]);
+        }
       }
+      const updates = updateDropSchema.parse(body);
       
+      const existingDrop = await storage.getDrop(id);
+      if (!existingDrop) {
+        return res.status(404).json({ message: "Drop not found" });
+      }
+
+      // A change to one time has to fit the times left as they are
+      dropScheduleSchema.parse({ ...existingDrop, ...updates });
+
+      if (updates.status !== undefined) {
+        if (!canTransitionDrop(existingDrop.status, updates.status)) {
+          return res.status(400).json({ message: `A ${existingDrop.status} drop can't be moved to ${updates.status}` });
+        }
+      }
+
       const updatedDrop = await storage.updateDrop(id, updates);
       if (!updatedDrop) {
         return res.status(404).json({ message: "Drop not found" });
       }
       
+      await recordAudit(req, "drop.update", "drop", id, existingDrop, updatedDrop);
+      if (updatedDrop.status !== existingDrop.status) {
+        publishQueueEvent(id, { type: "status", status: updatedDrop.status });
+      } else {
+        publishQueueEvent(id, { type: "queue" });
+      }
       res.json(updatedDrop);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      // The drop's status changed between the check and the update, e.g. by the scheduler
+      if (error instanceof Error && error.message === "Invalid drop status transition") {
+        return res.status(409).json({ message: "The drop's status changed, please reload and try again" });
+      }
       res.status(500).json({ message: "Failed to update drop" });
     }
   });
 
-  app.delete("/api/admin/drops/:id", async (req, res) => {
+  app.delete("/api/admin/drops/:id", requireRole("owner"), async (req, res) => {
     try {
       const { id } = req.params;
+      const existingDrop = await storage.getDrop(id);
       const success = await storage.deleteDrop(id);
       
       if (!success) {
         return res.status(404).json({ message: "Drop not found" });
       }
       
+      await recordAudit(req, "drop.delete", "drop", id, existingDrop, null);
       res.json({ message: "Drop deleted successfully" });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete drop" });
     }
   });
 
-  // Admin route to get all queue entries
+  // One page of entries; see adminQueueQuerySchema for search, filters, sorting and the cursor
   app.get("/api/admin/queue", async (req, res) => {
     try {
-      const entries = await storage.getAllQueueEntries();
-      res.json(entries);
+      const query = adminQueueQuerySchema.parse(req.query);
+      res.json(await storage.listQueueEntries(query));
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      if (error instanceof Error && error.message === "Invalid cursor") {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
       res.status(500).json({ message: "Failed to get queue entries" });
     }
   });
 
+  // Streams entries as CSV or JSON Lines; ?format=csv|jsonl&columns=email,phone,...&dropId=&from=&to=
+  app.get("/api/admin/queue-export", async (req, res) => {
+    try {
+      const query = queueExportQuerySchema.parse(req.query);
+      if (query.dropId && !(await storage.getDrop(query.dropId))) {
+        return res.status(404).json({ message: "Drop not found" });
+      }
+
+      const rows = await streamQueueExport(res, query);
+      // Exports carry personal data out of the panel, so who took what is kept with the other admin actions
+      await recordAudit(req, "queue.export", "drop", query.dropId ?? null, null, { ...query, rows });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      console.error("Queue export failed:", error);
+      // Once rows have gone out, cutting the connection is the only way to tell the client the file is incomplete
+      if (res.headersSent) return res.destroy();
+      res.status(500).json({ message: "Failed to export queue entries" });
+    }
+  });
+
+  // Adds people to a drop's queue from a CSV body with an email column (phone, notifications and sms_consent optional).
+  // Previews unless ?dryRun=false; ?placement=end|top|position&start= decides where they go, ?notify=true emails them
+  app.post("/api/admin/queue-import", requireRole("operator"), express.text({ type: ["text/csv", "text/plain"], limit: "5mb" }), async (req, res) => {
+    try {
+      const options = queueImportOptionsSchema.parse(req.query);
+      if (typeof req.body !== "string" || !req.body.trim()) {
+        return res.status(400).json({ message: "Upload a CSV file" });
+      }
+
+      const drop = await storage.getDrop(options.dropId);
+      if (!drop) {
+        return res.status(404).json({ message: "Drop not found" });
+      }
+      if (drop.status === "closed") {
+        return res.status(400).json({ message: "This drop is closed" });
+      }
+
+      const result = await importQueueCsv(drop, req.body, options);
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      const { report, created } = result;
+      if (created.length > 0) {
+        if (options.notify) {
+          const offset = await getDisplayOffset();
+          for (const entry of created) {
+            void notifyJoined(entry, drop, displayPosition(entry, offset));
+          }
+        }
+        publishQueueEvent(drop.id, { type: "queue" });
+        await recordAudit(req, "queue.import", "drop", drop.id, null, {
+          placement: options.placement,
+          start: options.start ?? null,
+          notify: options.notify,
+          created: report.created,
+          duplicates: report.duplicates,
+          invalid: report.invalid,
+        });
+      }
+
+      res.json(report);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      res.status(500).json({ message: "Failed to import queue entries" });
+    }
+  });
+
+  // Removes an entry and closes the gap it leaves; the scheduler refills freed queue spots from the waitlist
+  app.delete("/api/admin/queue/:id", requireRole("operator"), async (req, res) => {
+    try {
+      const entry = await storage.getQueueEntry(req.params.id);
+      if (!entry || !(await storage.deleteQueueEntry(entry.id))) {
+        return res.status(404).json({ message: "Queue entry not found" });
+      }
+
+      publishQueueEvent(entry.dropId, { type: "queue" });
+      await recordAudit(req, "queue_entry.delete", "queue_entry", entry.id, entry, null);
+      res.json({ message: "Queue entry removed" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove queue entry" });
+    }
+  });
+
+  // Moves an entry to a position within its tier (clamped to the tier), shifting everyone in between by one
+  app.post("/api/admin/queue/:id/move", requireRole("operator"), async (req, res) => {
+    try {
+      const { position } = moveQueueEntrySchema.parse(req.body);
+
+      const before = await storage.getQueueEntry(req.params.id);
+      const moved = before && await storage.moveQueueEntry(before.id, position);
+      if (!before || !moved) {
+        return res.status(404).json({ message: "Queue entry not found" });
+      }
+
+      publishQueueEvent(moved.dropId, { type: "queue" });
+      await recordAudit(req, "queue_entry.move", "queue_entry", moved.id,
+        { tier: before.tier, position: before.position },
+        { tier: moved.tier, position: moved.position });
+      res.json(moved);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      res.status(500).json({ message: "Failed to move queue entry" });
+    }
+  });
+
+  // Undoes an applied Instagram boost: the entry moves back down by the current boost size and its approved claim
+  // is marked rejected. The person may submit a new claim.
+  app.post("/api/admin/queue/:id/revert-boost", requireRole("operator"), async (req, res) => {
+    try {
+      const before = await storage.getQueueEntry(req.params.id);
+      if (!before) {
+        return res.status(404).json({ message: "Queue entry not found" });
+      }
+
+      const settings = await storage.getSettings();
+      const reverted = await storage.revertInstagramBoost(before.id, settings?.instagramBoostSize ?? 100);
+      if (!reverted) {
+        return res.status(400).json({ message: "This entry has no boost to revert" });
+      }
+
+      const claim = await storage.getLatestSocialVerification(before.id);
+      if (claim?.status === "approved") {
+        await storage.updateSocialVerificationStatus(claim.id, "rejected", `Boost reverted by ${req.user?.username}`);
+      }
+
+      publishQueueEvent(reverted.dropId, { type: "queue" });
+      await recordAudit(req, "queue_entry.revert_boost", "queue_entry", reverted.id,
+        { position: before.position, instagramUsername: before.instagramUsername, instagramBoostUsed: before.instagramBoostUsed },
+        { position: reverted.position, instagramUsername: reverted.instagramUsername, instagramBoostUsed: reverted.instagramBoostUsed });
+      res.json(reverted);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revert boost" });
+    }
+  });
+
+  // Re-sends whatever the entry needs now: the confirmation link while unconfirmed, the access link while its
+  // slot is open, and otherwise its place in line
+  app.post("/api/admin/queue/:id/resend", requireRole("operator"), async (req, res) => {
+    try {
+      const entry = await storage.getQueueEntry(req.params.id);
+      const drop = entry && await storage.getDrop(entry.dropId);
+      if (!entry || !drop) {
+        return res.status(404).json({ message: "Queue entry not found" });
+      }
+
+      let sent: "verification" | "access" | "position";
+      if (!entry.emailVerifiedAt) {
+        sent = "verification";
+        await notifyVerifyEmail(entry, drop, signVerificationToken(entry, drop));
+      } else if (getAccessStatus(entry) === "open") {
+        sent = "access";
+        await notifySlotOpen(entry, drop, signAccessToken(entry));
+      } else {
+        sent = "position";
+        await notifyJoined(entry, drop, displayPosition(entry, await getDisplayOffset()));
+      }
+
+      await recordAudit(req, "queue_entry.resend", "queue_entry", entry.id, null, { sent });
+      res.json({ sent });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to resend notification" });
+    }
+  });
+
+  app.get("/api/admin/bans", async (req, res) => {
+    try {
+      res.json(await storage.getBans());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get bans" });
+    }
+  });
+
+  // Bans an email address or a domain from joining; { removeEntries: true } also takes covered entries out of every drop
+  app.post("/api/admin/bans", requireRole("operator"), async (req, res) => {
+    try {
+      const validatedData = insertBanSchema.parse(req.body);
+      const ban = await storage.createBan(validatedData, req.user!.username);
+
+      const removed = req.body.removeEntries === true ? await storage.removeBannedEntries(ban) : [];
+      for (const dropId of Array.from(new Set(removed.map(entry => entry.dropId)))) {
+        publishQueueEvent(dropId, { type: "queue" });
+      }
+
+      await recordAudit(req, "ban.create", "ban", ban.id, null, { ...ban, removedEntries: removed.map(entry => entry.email) });
+      res.json({ ban, removed: removed.length });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      if (error instanceof Error && error.message === "Already banned") {
+        return res.status(400).json({ message: "Already banned" });
+      }
+      res.status(500).json({ message: "Failed to create ban" });
+    }
+  });
+
+  app.delete("/api/admin/bans/:id", requireRole("operator"), async (req, res) => {
+    try {
+      const ban = await storage.deleteBan(req.params.id);
+      if (!ban) {
+        return res.status(404).json({ message: "Ban not found" });
+      }
+
+      await recordAudit(req, "ban.delete", "ban", ban.id, ban, null);
+      res.json({ message: "Ban lifted" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to lift ban" });
+    }
+  });
+
+  // Boost claims awaiting (or past) moderator review
+  app.get("/api/admin/boost-claims", async (req, res) => {
+    try {
+      const { status } = req.query;
+      if (status !== undefined && !verificationStatuses.includes(status as VerificationStatus)) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+
+      const claims = await storage.getBoostClaims(status as VerificationStatus | undefined);
+      res.json(claims);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get boost claims" });
+    }
+  });
+
+  app.post("/api/admin/boost-claims/review", requireRole("operator"), async (req, res) => {
+    try {
+      const { ids, decision } = req.body;
+
+      if (!Array.isArray(ids) || ids.length === 0 || (decision !== "approved" && decision !== "rejected")) {
+        return res.status(400).json({ message: "Claim ids and a decision of approved or rejected are required" });
+      }
+
+      const settings = await storage.getSettings();
+      const boostSize = settings?.instagramBoostSize ?? 100;
+      const actor = req.user?.username;
+      let reviewed = 0;
+      let skipped = 0;
+
+      for (const id of ids) {
+        const claim = await storage.getSocialVerification(String(id));
+        if (!claim || claim.status !== "pending") {
+          skipped++;
+          continue;
+        }
+
+        const entry = await storage.getQueueEntry(claim.queueEntryId);
+        if (!entry) {
+          skipped++;
+          continue;
+        }
+
+        // An entry can only be boosted once, even if it has several pending claims
+        const outcome = decision === "approved" && entry.instagramBoostUsed ? "rejected" : decision;
+        const detail = outcome === decision ? `Reviewed by ${actor}` : `Reviewed by ${actor}: boost already used`;
+
+        let updatedEntry = entry;
+        if (outcome === "approved") {
+          const boosted = await storage.updateQueueEntryInstagram(entry.dropId, entry.email, claim.username, boostSize);
+          if (!boosted) {
+            skipped++;
+            continue;
+          }
+          updatedEntry = boosted;
+          publishQueueEvent(entry.dropId, { type: "queue" });
+        }
+
+        // Rejected users are emailed and see the outcome on their next position check, and can submit a new claim
+        const updatedClaim = await storage.updateSocialVerificationStatus(claim.id, outcome, detail);
+        if (outcome === "rejected") {
+          void notifyBoostRejected(entry, claim.username);
+        }
+        await recordAudit(req, `boost_claim.${outcome === "approved" ? "approve" : "reject"}`, "social_verification", claim.id,
+          { ...claim, position: entry.position },
+          { ...updatedClaim, position: updatedEntry.position });
+        reviewed++;
+      }
+
+      res.json({ reviewed, skipped });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to review boost claims" });
+    }
+  });
+
   // Settings management routes
   app.get("/api/admin/settings", async (req, res) => {
     try {
       const settings = await storage.getSettings();
-      res.json(settings || { instagramPostUrl: null, instagramBoostEnabled: false });
+      res.json(settings || { instagramPostUrl: null, instagramBoostEnabled: false, instagramBoostSize: 100, honestMode: true, boostManualReview: true });
     } catch (error) {
       res.status(500).json({ message: "Failed to get settings" });
     }
   });
 
-  app.put("/api/admin/settings", async (req, res) => {
+  app.put("/api/admin/settings", requireRole("owner"), async (req, res) => {
     try {
       const validatedData = insertSettingsSchema.parse(req.body);
+      const existingSettings = await storage.getSettings();
       const settings = await storage.updateSettings(validatedData);
+      await recordAudit(req, "settings.update", "settings", settings.id, existingSettings, settings);
+      // Honest mode changes every displayed position
+      const activeDrop = await storage.getActiveDrop();
+      if (activeDrop) {
+        publishQueueEvent(activeDrop.id, { type: "queue" });
+      }
       res.json(settings);
     } catch (error) {
       if (error instanceof ZodError) {
@@ -284,25 +908,124 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Instagram verification route
-  app.post("/api/instagram/verify", async (req, res) => {
+  // Admin user management
+  app.get("/api/admin/users", requireRole("owner"), async (req, res) => {
     try {
-      const { email, instagramUsername } = req.body;
-      
-      if (!email || !instagramUsername) {
-        return res.status(400).json({ message: "Email and Instagram username required" });
+      const users = await storage.getAllAdminUsers();
+      res.json(users.map(toPublicAdmin));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get admin users" });
+    }
+  });
+
+  app.post("/api/admin/users", requireRole("owner"), async (req, res) => {
+    try {
+      const validatedData = insertAdminUserSchema.parse(req.body);
+
+      if (await storage.getAdminUserByUsername(validatedData.username)) {
+        return res.status(400).json({ message: "Username already exists" });
       }
 
-      // Simple verification - in production you'd verify they actually shared
-      // For now, we trust users and just log the attempt
-      console.log(`Instagram verification attempt: ${email} -> @${instagramUsername}`);
-      
-      res.json({ 
-        verified: true, 
-        message: "Instagram share verified! You've moved up 100 spots." 
+      const user = await storage.createAdminUser({
+        ...validatedData,
+        password: await hashPassword(validatedData.password),
       });
+      await recordAudit(req, "admin_user.create", "admin_user", user.id, null, toPublicAdmin(user));
+      res.json(toPublicAdmin(user));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      res.status(500).json({ message: "Failed to create admin user" });
+    }
+  });
+
+  app.put("/api/admin/users/:id", requireRole("owner"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { role } = req.body;
+
+      if (!adminRoles.includes(role)) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+
+      const existingUser = await storage.getAdminUser(id);
+      if (!existingUser) {
+        return res.status(404).json({ message: "Admin user not found" });
+      }
+
+      if (existingUser.role === "owner" && role !== "owner" && await isLastOwner(id)) {
+        return res.status(400).json({ message: "Cannot demote the last owner" });
+      }
+
+      const updatedUser = await storage.updateAdminUserRole(id, role);
+      await recordAudit(req, "admin_user.update", "admin_user", id, toPublicAdmin(existingUser), updatedUser && toPublicAdmin(updatedUser));
+      res.json(updatedUser && toPublicAdmin(updatedUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update admin user" });
+    }
+  });
+
+  app.delete("/api/admin/users/:id", requireRole("owner"), async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const existingUser = await storage.getAdminUser(id);
+      if (!existingUser) {
+        return res.status(404).json({ message: "Admin user not found" });
+      }
+
+      if (existingUser.role === "owner" && await isLastOwner(id)) {
+        return res.status(400).json({ message: "Cannot remove the last owner" });
+      }
+
+      await storage.deleteAdminUser(id);
+      await recordAudit(req, "admin_user.delete", "admin_user", id, toPublicAdmin(existingUser), null);
+      res.json({ message: "Admin user deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete admin user" });
+    }
+  });
+
+  // Funnel counts for every drop, for the analytics tab's cards and comparisons
+  app.get("/api/admin/analytics/drops", async (req, res) => {
+    try {
+      res.json(await storage.getDropAnalytics());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get drop analytics" });
+    }
+  });
+
+  // Sign-ups over time for one drop; ?interval=minute|hour
+  app.get("/api/admin/analytics/drops/:id/joins", async (req, res) => {
+    try {
+      const { interval } = joinTimelineQuerySchema.parse(req.query);
+      if (!(await storage.getDrop(req.params.id))) {
+        return res.status(404).json({ message: "Drop not found" });
+      }
+
+      res.json(await storage.getJoinTimeline(req.params.id, interval));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      res.status(500).json({ message: "Failed to get join timeline" });
+    }
+  });
+
+  // Audit trail of mutating admin actions
+  app.get("/api/admin/audit-logs", async (req, res) => {
+    try {
+      const logs = await storage.getAuditLogs(200);
+      res.json(logs);
     } catch (error) {
-      res.status(500).json({ message: "Failed to verify Instagram share" });
+      res.status(500).json({ message: "Failed to get audit logs" });
     }
   });
 
@@ -0,0 +1,177 @@
+import { describe, it, before, after, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { AdminApiShopifyClient, StubShopifyClient, QUEUE_ENTRY_ATTRIBUTE, queueEntryIdFromOrder, shopifyClient } from "./shopify";
+import { storage } from "./storage";
+import { startTestServer } from "./test-server";
+
+describe("StubShopifyClient", () => {
+  it("records draft orders and gives each its own id and invoice link", async () => {
+    const client = new StubShopifyClient();
+    const request = { variantId: "123", email: "someone@example.com", queueEntryId: "entry-1", reserveUntil: new Date() };
+
+    const first = await client.createDraftOrder(request);
+    const second = await client.createDraftOrder({ ...request, queueEntryId: "entry-2" });
+
+    assert.notEqual(first.id, second.id);
+    assert.ok(first.invoiceUrl.includes(encodeURIComponent(first.id)));
+    assert.deepEqual(client.draftOrders.map(order => order.queueEntryId), ["entry-1", "entry-2"]);
+  });
+
+  it("accepts webhooks it signed and nothing else", () => {
+    const client = new StubShopifyClient("secret");
+    const body = Buffer.from(JSON.stringify({ id: 1 }));
+    const hmac = client.signWebhook(body);
+
+    assert.equal(client.verifyWebhook(body, hmac), true);
+    assert.equal(client.verifyWebhook(Buffer.from(JSON.stringify({ id: 2 })), hmac), false);
+    assert.equal(client.verifyWebhook(body, new StubShopifyClient("other").signWebhook(body)), false);
+    assert.equal(client.verifyWebhook(body, undefined), false);
+  });
+
+  it("accepts no webhooks without a secret", () => {
+    const client = new StubShopifyClient();
+    const body = Buffer.from(JSON.stringify({ id: 1 }));
+
+    assert.equal(client.webhooksEnabled, false);
+    assert.equal(client.verifyWebhook(body, new StubShopifyClient("secret").signWebhook(body)), false);
+    assert.throws(() => client.signWebhook(body));
+  });
+});
+
+describe("AdminApiShopifyClient", () => {
+  const client = new AdminApiShopifyClient("shop.myshopify.com", "access-token", "secret");
+  const request = { variantId: "123", email: "someone@example.com", queueEntryId: "entry-1", reserveUntil: new Date("2024-01-01T00:05:00Z") };
+
+  // Answers every Admin API call with the given response and records the requests
+  function stubAdminApi(response: Response) {
+    const requests: { url: string; init: RequestInit }[] = [];
+    mock.method(globalThis, "fetch", async (url: string, init: RequestInit) => {
+      requests.push({ url, init });
+      return response;
+    });
+    return requests;
+  }
+
+  const draftOrderCreate = (draftOrder: object | null, userErrors: object[] = []) =>
+    new Response(JSON.stringify({ data: { draftOrderCreate: { draftOrder, userErrors } } }));
+
+  afterEach(() => mock.restoreAll());
+
+  it("creates a draft order holding the variant for the queue entry", async () => {
+    const requests = stubAdminApi(draftOrderCreate({ id: "gid://shopify/DraftOrder/1", invoiceUrl: "https://shop/invoices/1" }));
+
+    const draftOrder = await client.createDraftOrder(request);
+
+    assert.deepEqual(draftOrder, { id: "gid://shopify/DraftOrder/1", invoiceUrl: "https://shop/invoices/1" });
+    assert.equal(requests[0].url, "https://shop.myshopify.com/admin/api/2024-07/graphql.json");
+    assert.equal((requests[0].init.headers as Record<string, string>)["X-Shopify-Access-Token"], "access-token");
+    const { input } = JSON.parse(requests[0].init.body as string).variables;
+    assert.deepEqual(input.lineItems, [{ variantId: "gid://shopify/ProductVariant/123", quantity: 1 }]);
+    assert.deepEqual(input.customAttributes, [{ key: QUEUE_ENTRY_ATTRIBUTE, value: "entry-1" }]);
+    assert.equal(input.reserveInventoryUntil, "2024-01-01T00:05:00.000Z");
+  });
+
+  it("throws with Shopify's user errors", async () => {
+    stubAdminApi(draftOrderCreate(null, [{ field: ["lineItems"], message: "Variant is out of stock" }]));
+
+    await assert.rejects(client.createDraftOrder(request), { message: "Shopify draft order failed: Variant is out of stock" });
+  });
+
+  it("throws with top-level GraphQL errors", async () => {
+    stubAdminApi(new Response(JSON.stringify({ errors: [{ message: "Throttled" }] })));
+
+    await assert.rejects(client.createDraftOrder(request), { message: "Shopify draft order failed: Throttled" });
+  });
+
+  it("throws on an HTTP failure", async () => {
+    stubAdminApi(new Response("Invalid API key or access token", { status: 401 }));
+
+    await assert.rejects(client.createDraftOrder(request), { message: "Shopify Admin API error 401: Invalid API key or access token" });
+  });
+});
+
+describe("queueEntryIdFromOrder", () => {
+  it("reads the queue entry carried over from the draft order", () => {
+    const order = { id: 1, note_attributes: [{ name: "gift", value: "no" }, { name: QUEUE_ENTRY_ATTRIBUTE, value: "entry-1" }] };
+    assert.equal(queueEntryIdFromOrder(order), "entry-1");
+    assert.equal(queueEntryIdFromOrder({ id: 2 }), undefined);
+  });
+});
+
+describe("POST /api/shopify/webhooks/orders-create", () => {
+  // Signs with the secret the test setup gives the app's Shopify client
+  const signer = new StubShopifyClient(process.env.SHOPIFY_WEBHOOK_SECRET);
+  let server: Awaited<ReturnType<typeof startTestServer>>;
+  let dropId: string;
+  let signups = 0;
+
+  async function deliver(order: object, hmac?: string) {
+    const body = JSON.stringify(order);
+    const response = await fetch(`${server.url}/api/shopify/webhooks/orders-create`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Shopify-Topic": "orders/create",
+        "X-Shopify-Hmac-Sha256": hmac ?? signer.signWebhook(body),
+      },
+      body,
+    });
+    return response.status;
+  }
+
+  const orderFor = (entryId: string, id: number) => ({ id, note_attributes: [{ name: QUEUE_ENTRY_ATTRIBUTE, value: entryId }] });
+
+  async function newEntry() {
+    return storage.createQueueEntry(dropId, { email: `buyer-${signups++}@example.com`, notifications: false, smsConsent: false });
+  }
+
+  before(async () => {
+    server = await startTestServer();
+    const drop = await storage.createDrop({
+      name: "Webhook test",
+      dropTime: new Date(Date.now() + 60 * 60 * 1000),
+      maxQueueSize: 100,
+      waitlistEnabled: false,
+      accessWindowMinutes: 5,
+      emailVerificationMinutes: 30,
+      admissionBatchSize: 10,
+      admissionIntervalSeconds: 60,
+    });
+    dropId = drop.id;
+  });
+
+  after(() => server.close());
+  afterEach(() => mock.restoreAll());
+
+  it("rejects a payload with a bad signature", async () => {
+    const entry = await newEntry();
+    const order = orderFor(entry.id, 1001);
+
+    assert.equal(await deliver(order, new StubShopifyClient("forged").signWebhook(JSON.stringify(order))), 401);
+    assert.equal((await storage.getQueueEntry(entry.id))?.purchasedAt, null);
+  });
+
+  it("marks the entry behind a signed order as purchased, once", async () => {
+    const entry = await newEntry();
+
+    assert.equal(await deliver(orderFor(entry.id, 1002)), 200);
+    const purchased = { ...(await storage.getQueueEntry(entry.id))! };
+    assert.equal(purchased.shopifyOrderId, "1002");
+    assert.ok(purchased.purchasedAt);
+
+    // Shopify retries deliveries; a repeat (or a second order for the entry) changes nothing
+    assert.equal(await deliver(orderFor(entry.id, 1002)), 200);
+    assert.equal(await deliver(orderFor(entry.id, 1003)), 200);
+    const redelivered = (await storage.getQueueEntry(entry.id))!;
+    assert.equal(redelivered.shopifyOrderId, "1002");
+    assert.deepEqual(redelivered.purchasedAt, purchased.purchasedAt);
+  });
+
+  it("turns webhooks away when no secret is configured", async () => {
+    const entry = await newEntry();
+    mock.getter(shopifyClient, "webhooksEnabled", () => false);
+
+    assert.equal(await deliver(orderFor(entry.id, 1004)), 503);
+    assert.equal((await storage.getQueueEntry(entry.id))?.purchasedAt, null);
+  });
+});
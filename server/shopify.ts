@@ -0,0 +1,160 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+
+// Custom attribute linking a draft order (and the order it becomes) back to its queue entry
+export const QUEUE_ENTRY_ATTRIBUTE = "queue_entry_id";
+
+export interface DraftOrderRequest {
+  variantId: string;
+  email: string;
+  queueEntryId: string;
+  // Inventory stays held for the entry until its access window closes
+  reserveUntil: Date;
+}
+
+export interface DraftOrder {
+  id: string;
+  invoiceUrl: string;
+}
+
+// The parts of an orders/create webhook payload we use
+export interface ShopifyOrderWebhook {
+  id: number | string;
+  email?: string;
+  note_attributes?: { name: string; value: string }[];
+}
+
+export interface ShopifyClient {
+  createDraftOrder(request: DraftOrderRequest): Promise<DraftOrder>;
+  // False when there is no webhook secret to check signatures against; webhooks are then turned away
+  readonly webhooksEnabled: boolean;
+  // Whether a webhook request really came from Shopify
+  verifyWebhook(rawBody: Buffer, hmac: string | undefined): boolean;
+}
+
+// X-Shopify-Hmac-Sha256: base64 HMAC-SHA256 of the raw request body
+function verifyShopifyHmac(secret: string, rawBody: Buffer, hmac: string | undefined): boolean {
+  if (!hmac) return false;
+
+  const a = Buffer.from(createHmac("sha256", secret).update(rawBody).digest("base64"));
+  const b = Buffer.from(hmac);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+const DRAFT_ORDER_CREATE = `
+  mutation DraftOrderCreate($input: DraftOrderInput!) {
+    draftOrderCreate(input: $input) {
+      draftOrder { id invoiceUrl }
+      userErrors { field message }
+    }
+  }
+`;
+
+interface DraftOrderCreateResponse {
+  data?: {
+    draftOrderCreate: {
+      draftOrder: DraftOrder | null;
+      userErrors: { field: string[] | null; message: string }[];
+    };
+  };
+  errors?: { message: string }[];
+}
+
+// Creates draft orders through the Shopify Admin GraphQL API with a custom app's access token
+export class AdminApiShopifyClient implements ShopifyClient {
+  readonly webhooksEnabled = true;
+
+  constructor(
+    private shopDomain: string,
+    private accessToken: string,
+    private webhookSecret: string,
+    private apiVersion = "2024-07",
+  ) {}
+
+  async createDraftOrder({ variantId, email, queueEntryId, reserveUntil }: DraftOrderRequest): Promise<DraftOrder> {
+    const response = await fetch(`https://${this.shopDomain}/admin/api/${this.apiVersion}/graphql.json`, {
+      method: "POST",
+      headers: {
+        "X-Shopify-Access-Token": this.accessToken,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        query: DRAFT_ORDER_CREATE,
+        variables: {
+          input: {
+            email,
+            lineItems: [{ variantId: `gid://shopify/ProductVariant/${variantId}`, quantity: 1 }],
+            customAttributes: [{ key: QUEUE_ENTRY_ATTRIBUTE, value: queueEntryId }],
+            reserveInventoryUntil: reserveUntil.toISOString(),
+            tags: ["locks-sold-queue"],
+          },
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Shopify Admin API error ${response.status}: ${await response.text()}`);
+    }
+
+    const body = (await response.json()) as DraftOrderCreateResponse;
+    const result = body.data?.draftOrderCreate;
+    const errors = [...(body.errors ?? []), ...(result?.userErrors ?? [])];
+    if (errors.length > 0 || !result?.draftOrder) {
+      throw new Error(`Shopify draft order failed: ${errors.map(error => error.message).join("; ") || "no draft order returned"}`);
+    }
+
+    return result.draftOrder;
+  }
+
+  verifyWebhook(rawBody: Buffer, hmac: string | undefined): boolean {
+    return verifyShopifyHmac(this.webhookSecret, rawBody, hmac);
+  }
+}
+
+// In-memory stand-in for the Admin API; for tests and local development without a store.
+// Webhooks are checked against the given secret so signed test payloads can be replayed; without one none are accepted.
+export class StubShopifyClient implements ShopifyClient {
+  readonly draftOrders: (DraftOrderRequest & DraftOrder)[] = [];
+
+  constructor(private webhookSecret?: string) {}
+
+  get webhooksEnabled(): boolean {
+    return !!this.webhookSecret;
+  }
+
+  async createDraftOrder(request: DraftOrderRequest): Promise<DraftOrder> {
+    const id = `gid://shopify/DraftOrder/${randomUUID()}`;
+    const draftOrder = { id, invoiceUrl: `https://stub.myshopify.com/invoices/${encodeURIComponent(id)}` };
+    this.draftOrders.push({ ...request, ...draftOrder });
+    console.log(`[shopify] draft order for ${request.email} (variant ${request.variantId})`);
+    return draftOrder;
+  }
+
+  verifyWebhook(rawBody: Buffer, hmac: string | undefined): boolean {
+    return !!this.webhookSecret && verifyShopifyHmac(this.webhookSecret, rawBody, hmac);
+  }
+
+  // Signs a payload the way Shopify does, for replaying orders/create webhooks locally
+  signWebhook(rawBody: Buffer | string): string {
+    if (!this.webhookSecret) {
+      throw new Error("StubShopifyClient needs a webhook secret to sign payloads");
+    }
+    return createHmac("sha256", this.webhookSecret).update(rawBody).digest("base64");
+  }
+}
+
+// Queue entry an order was placed for, from the custom attribute carried over from its draft order
+export function queueEntryIdFromOrder(order: ShopifyOrderWebhook): string | undefined {
+  return order.note_attributes?.find(attribute => attribute.name === QUEUE_ENTRY_ATTRIBUTE)?.value;
+}
+
+function createShopifyClient(): ShopifyClient {
+  const { SHOPIFY_SHOP_DOMAIN, SHOPIFY_ADMIN_ACCESS_TOKEN, SHOPIFY_WEBHOOK_SECRET } = process.env;
+
+  if (SHOPIFY_SHOP_DOMAIN && SHOPIFY_ADMIN_ACCESS_TOKEN && SHOPIFY_WEBHOOK_SECRET) {
+    return new AdminApiShopifyClient(SHOPIFY_SHOP_DOMAIN, SHOPIFY_ADMIN_ACCESS_TOKEN, SHOPIFY_WEBHOOK_SECRET);
+  }
+
+  return new StubShopifyClient(SHOPIFY_WEBHOOK_SECRET);
+}
+
+export const shopifyClient = createShopifyClient();
@@ -0,0 +1,31 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Falls back to the session secret so a single secret is enough for small deployments
+const secret = () => process.env.ACCESS_TOKEN_SECRET || process.env.SESSION_SECRET!;
+
+function sign(data: string): string {
+  return createHmac("sha256", secret()).update(data).digest("base64url");
+}
+
+// Token format: base64url(JSON payload) + "." + HMAC of that payload
+export function signToken(payload: Record<string, unknown>): string {
+  const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${data}.${sign(data)}`;
+}
+
+// Payload of a token with a valid signature, or null; callers check the fields they expect
+export function readToken(token: string): Record<string, unknown> | null {
+  const [data, signature] = token.split(".");
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, "base64url").toString());
+    return payload && typeof payload === "object" ? payload : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,28 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import { FakeSmsProvider } from "./sms";
+
+const url = "https://example.com/api/sms/inbound";
+const params = { From: "+15551234567", Body: "STOP" };
+
+// Twilio's scheme: the URL followed by the sorted params, HMAC-SHA1 with the auth token
+function sign(secret: string, signedParams: Record<string, string>) {
+  const payload = Object.keys(signedParams).sort().reduce((data, key) => data + key + signedParams[key], url);
+  return createHmac("sha1", secret).update(payload).digest("base64");
+}
+
+describe("FakeSmsProvider", () => {
+  it("rejects every inbound webhook without a test secret", () => {
+    const provider = new FakeSmsProvider();
+    assert.equal(provider.verifyInbound(url, params, sign("anything", params)), false);
+    assert.equal(provider.verifyInbound(url, params, undefined), false);
+  });
+
+  it("accepts inbound webhooks signed with its test secret", () => {
+    const provider = new FakeSmsProvider("secret");
+    assert.equal(provider.verifyInbound(url, params, sign("secret", params)), true);
+    assert.equal(provider.verifyInbound(url, { ...params, Body: "START" }, sign("secret", params)), false);
+    assert.equal(provider.verifyInbound(url, params, sign("other", params)), false);
+  });
+});
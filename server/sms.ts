@@ -0,0 +1,81 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+}
+
+export interface SmsProvider {
+  send(message: SmsMessage): Promise<void>;
+  // Whether an inbound webhook request really came from the provider
+  verifyInbound(url: string, params: Record<string, string>, signature: string | undefined): boolean;
+}
+
+// X-Twilio-Signature: base64 HMAC-SHA1 of the full URL followed by the sorted POST params
+function verifyTwilioSignature(authToken: string, url: string, params: Record<string, string>, signature: string | undefined): boolean {
+  if (!signature) return false;
+
+  const payload = Object.keys(params).sort().reduce((data, key) => data + key + params[key], url);
+  const expected = createHmac("sha1", authToken).update(payload).digest("base64");
+
+  const a = Buffer.from(expected);
+  const b = Buffer.from(signature);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Sends through the Twilio Messages REST API
+export class TwilioSmsProvider implements SmsProvider {
+  constructor(
+    private accountSid: string,
+    private authToken: string,
+    private fromNumber: string,
+  ) {}
+
+  async send({ to, body }: SmsMessage): Promise<void> {
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString("base64")}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({ To: to, From: this.fromNumber, Body: body }).toString(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Twilio error ${response.status}: ${await response.text()}`);
+    }
+  }
+
+  verifyInbound(url: string, params: Record<string, string>, signature: string | undefined): boolean {
+    return verifyTwilioSignature(this.authToken, url, params, signature);
+  }
+}
+
+// Logs messages instead of sending them and keeps them in memory; for local development and tests.
+// Inbound webhooks are only accepted when signed Twilio-style with the given test secret; without one, none are.
+export class FakeSmsProvider implements SmsProvider {
+  readonly sent: SmsMessage[] = [];
+
+  constructor(private inboundSecret?: string) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    this.sent.push(message);
+    console.log(`[sms] to=${message.to}\n${message.body}`);
+  }
+
+  verifyInbound(url: string, params: Record<string, string>, signature: string | undefined): boolean {
+    return !!this.inboundSecret && verifyTwilioSignature(this.inboundSecret, url, params, signature);
+  }
+}
+
+function createSmsProvider(): SmsProvider {
+  const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER, SMS_TEST_INBOUND_SECRET } = process.env;
+
+  if (TWILIO_ACCOUNT_SID && TWILIO_AUTH_TOKEN && TWILIO_FROM_NUMBER) {
+    return new TwilioSmsProvider(TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER);
+  }
+
+  return new FakeSmsProvider(SMS_TEST_INBOUND_SECRET);
+}
+
+export const smsProvider = createSmsProvider();
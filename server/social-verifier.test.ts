@@ -0,0 +1,181 @@
+import { describe, it, before, after, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { InstagramGraphVerifier, StubSocialVerifier, socialVerifier, type VerificationResult } from "./social-verifier";
+import { storage } from "./storage";
+import { startTestServer } from "./test-server";
+
+const claim = {
+  username: "someone",
+  postUrl: "https://www.instagram.com/p/Cxyz123/",
+  since: new Date("2024-01-01T00:00:00Z"),
+};
+
+describe("StubSocialVerifier", () => {
+  it("approves by default and records each claim", async () => {
+    const verifier = new StubSocialVerifier();
+
+    const result = await verifier.verifyShare(claim);
+
+    assert.equal(result.status, "approved");
+    assert.deepEqual(verifier.claims, [claim]);
+  });
+
+  it("returns the configured outcome", async () => {
+    for (const status of ["pending", "rejected"] as const) {
+      const result = await new StubSocialVerifier(status).verifyShare(claim);
+      assert.equal(result.status, status);
+    }
+  });
+});
+
+describe("InstagramGraphVerifier", () => {
+  const verifier = new InstagramGraphVerifier("token", "business-1");
+  const media = (username: string, timestamp: string, caption = "") => ({ id: `${username}-${timestamp}`, username, caption, timestamp });
+
+  // Serves the given Graph API pages in order and records the requested URLs
+  function stubGraphApi(...pages: object[]) {
+    const urls: string[] = [];
+    mock.method(globalThis, "fetch", async (url: string) => {
+      urls.push(url);
+      return new Response(JSON.stringify(pages[urls.length - 1] ?? { data: [] }));
+    });
+    return urls;
+  }
+
+  afterEach(() => mock.restoreAll());
+
+  it("matches the claimed username ignoring case and a leading @", async () => {
+    stubGraphApi({ data: [media("SomeOne", "2024-02-01T00:00:00Z", "Dropping soon instagram.com/p/Cxyz123")] });
+
+    const result = await verifier.verifyShare({ ...claim, username: "@someONE" });
+
+    assert.equal(result.status, "approved");
+    assert.match(result.detail!, /links the drop post/);
+  });
+
+  it("ignores shares from other users and shares made before the cutoff", async () => {
+    stubGraphApi({ data: [media("someone-else", "2024-02-01T00:00:00Z"), media("someone", "2023-12-31T23:59:59Z")] });
+
+    const result = await verifier.verifyShare(claim);
+
+    assert.equal(result.status, "rejected");
+  });
+
+  it("follows the next page until it finds the share", async () => {
+    const next = "https://graph.facebook.com/v19.0/business-1/tags?after=abc";
+    const urls = stubGraphApi(
+      { data: [media("someone-else", "2024-02-01T00:00:00Z")], paging: { next } },
+      { data: [media("someone", "2024-02-01T00:00:00Z")] },
+    );
+
+    const result = await verifier.verifyShare(claim);
+
+    assert.equal(result.status, "approved");
+    assert.equal(urls.length, 2);
+    assert.match(urls[0], /\/business-1\/tags\?.*access_token=token/);
+    assert.equal(urls[1], next);
+  });
+
+  it("gives up after a few pages", async () => {
+    const page = { data: [media("someone-else", "2024-02-01T00:00:00Z")], paging: { next: "https://graph.facebook.com/next" } };
+    const urls = stubGraphApi(...Array.from({ length: 10 }, () => page));
+
+    const result = await verifier.verifyShare(claim);
+
+    assert.equal(result.status, "rejected");
+    assert.equal(urls.length, 5);
+  });
+
+  it("throws on an API error instead of rejecting the claim", async () => {
+    mock.method(globalThis, "fetch", async () => new Response("Invalid OAuth access token", { status: 400 }));
+
+    await assert.rejects(verifier.verifyShare(claim), /Instagram Graph API error 400: Invalid OAuth access token/);
+  });
+});
+
+describe("POST /api/queue/instagram-verify", () => {
+  const BOOST_SIZE = 2;
+  let server: Awaited<ReturnType<typeof startTestServer>>;
+  let dropId: string;
+  let signups = 0;
+
+  // A confirmed entry behind a few other confirmed ones, so a boost has room to move it
+  async function confirmedEntry() {
+    for (let i = 0; i < BOOST_SIZE; i++) {
+      const ahead = await storage.createQueueEntry(dropId, { email: `ahead-${signups++}@example.com`, notifications: false, smsConsent: false });
+      await storage.verifyQueueEntryEmail(ahead.id);
+    }
+    const entry = await storage.createQueueEntry(dropId, { email: `claimant-${signups++}@example.com`, notifications: false, smsConsent: false });
+    return (await storage.verifyQueueEntryEmail(entry.id))!;
+  }
+
+  async function claimBoost(token: string, result: VerificationResult["status"], boostManualReview = false) {
+    await storage.updateSettings({
+      instagramPostUrl: claim.postUrl,
+      instagramBoostEnabled: true,
+      instagramBoostSize: BOOST_SIZE,
+      honestMode: true,
+      boostManualReview,
+    });
+    mock.method(socialVerifier, "verifyShare", async () => ({ status: result }));
+
+    const response = await fetch(`${server.url}/api/queue/instagram-verify`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token, instagramUsername: "@someone" }),
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  before(async () => {
+    server = await startTestServer();
+    const drop = await storage.createDrop({
+      name: "Boost test",
+      dropTime: new Date(Date.now() + 60 * 60 * 1000),
+      maxQueueSize: 100,
+      waitlistEnabled: false,
+      accessWindowMinutes: 5,
+      emailVerificationMinutes: 30,
+      admissionBatchSize: 10,
+      admissionIntervalSeconds: 60,
+    });
+    dropId = drop.id;
+  });
+
+  after(() => server.close());
+  afterEach(() => mock.restoreAll());
+
+  it("moves the entry up when the claim is approved", async () => {
+    const entry = await confirmedEntry();
+
+    const { status, body } = await claimBoost(entry.statusToken, "approved");
+
+    assert.equal(status, 200);
+    assert.equal(body.status, "approved");
+    assert.equal(body.positionsSkipped, BOOST_SIZE);
+    const boosted = (await storage.getQueueEntry(entry.id))!;
+    assert.equal(boosted.position, entry.position - BOOST_SIZE);
+    assert.equal(boosted.instagramBoostUsed, true);
+    assert.equal((await storage.getLatestSocialVerification(entry.id))?.status, "approved");
+  });
+
+  for (const [outcome, boostManualReview, expected] of [
+    ["rejected", false, "rejected"],
+    ["pending", false, "pending"],
+    // With manual review on, even an approved automated check waits for a moderator
+    ["approved", true, "pending"],
+  ] as const) {
+    it(`leaves the position alone when the check is ${outcome}${boostManualReview ? " under manual review" : ""}`, async () => {
+      const entry = await confirmedEntry();
+
+      const { status, body } = await claimBoost(entry.statusToken, outcome, boostManualReview);
+
+      assert.equal(status, 200);
+      assert.equal(body.status, expected);
+      const unchanged = (await storage.getQueueEntry(entry.id))!;
+      assert.equal(unchanged.position, entry.position);
+      assert.equal(unchanged.instagramBoostUsed, false);
+      assert.equal((await storage.getLatestSocialVerification(entry.id))?.status, expected);
+    });
+  }
+});
@@ -0,0 +1,115 @@
+import { type VerificationStatus } from "@shared/schema";
+
+export interface ShareClaim {
+  username: string;
+  postUrl: string;
+  // Only shares made after this moment count, i.e. after the user joined the queue
+  since: Date;
+}
+
+export interface VerificationResult {
+  status: VerificationStatus;
+  detail?: string;
+}
+
+export interface SocialVerifier {
+  verifyShare(claim: ShareClaim): Promise<VerificationResult>;
+}
+
+interface GraphMedia {
+  id: string;
+  username?: string;
+  caption?: string;
+  permalink?: string;
+  timestamp?: string;
+}
+
+interface GraphPage {
+  data: GraphMedia[];
+  paging?: { next?: string };
+}
+
+// Shortcode of an Instagram post/reel URL, e.g. "Cxyz123" for https://instagram.com/p/Cxyz123/
+function postShortcode(postUrl: string): string | null {
+  const match = postUrl.match(/instagram\.com\/(?:p|reel|tv)\/([^/?#]+)/);
+  return match ? match[1] : null;
+}
+
+// Checks the Instagram Graph API for media by the claimed user that tags or mentions
+// our business account (the account that owns the configured post).
+export class InstagramGraphVerifier implements SocialVerifier {
+  private static readonly MAX_PAGES = 5;
+
+  constructor(
+    private accessToken: string,
+    private businessAccountId: string,
+    private apiVersion = "v19.0",
+  ) {}
+
+  async verifyShare({ username, postUrl, since }: ShareClaim): Promise<VerificationResult> {
+    const claimed = username.replace(/^@/, "").toLowerCase();
+    const shortcode = postShortcode(postUrl);
+
+    let url: string | undefined = this.graphUrl(`/${this.businessAccountId}/tags`, {
+      fields: "id,username,caption,permalink,timestamp",
+      limit: "50",
+    });
+
+    for (let page = 0; url && page < InstagramGraphVerifier.MAX_PAGES; page++) {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Instagram Graph API error ${response.status}: ${await response.text()}`);
+      }
+
+      const body = (await response.json()) as GraphPage;
+      for (const media of body.data) {
+        if (media.username?.toLowerCase() !== claimed) continue;
+
+        const postedAt = media.timestamp ? new Date(media.timestamp) : null;
+        if (postedAt && postedAt < since) continue;
+
+        // Tagging our account is enough; a caption linking the drop post is recorded for moderators
+        const linksPost = !!shortcode && !!media.caption?.includes(shortcode);
+        return {
+          status: "approved",
+          detail: `Found ${media.permalink || media.id}${linksPost ? " (links the drop post)" : ""}`,
+        };
+      }
+
+      url = body.paging?.next;
+    }
+
+    return { status: "rejected", detail: `No recent post or story tagging us from @${claimed}` };
+  }
+
+  private graphUrl(path: string, params: Record<string, string>) {
+    const search = new URLSearchParams({ ...params, access_token: this.accessToken });
+    return `https://graph.facebook.com/${this.apiVersion}${path}?${search.toString()}`;
+  }
+}
+
+// Returns a fixed result; for tests and local development without Instagram credentials
+export class StubSocialVerifier implements SocialVerifier {
+  readonly claims: ShareClaim[] = [];
+
+  constructor(private result: VerificationStatus = "approved") {}
+
+  async verifyShare(claim: ShareClaim): Promise<VerificationResult> {
+    this.claims.push(claim);
+    return { status: this.result, detail: `Stub verifier (${this.result})` };
+  }
+}
+
+function createSocialVerifier(): SocialVerifier {
+  const { INSTAGRAM_ACCESS_TOKEN, INSTAGRAM_BUSINESS_ACCOUNT_ID, SOCIAL_VERIFIER_STUB_RESULT } = process.env;
+
+  if (INSTAGRAM_ACCESS_TOKEN && INSTAGRAM_BUSINESS_ACCOUNT_ID) {
+    return new InstagramGraphVerifier(INSTAGRAM_ACCESS_TOKEN, INSTAGRAM_BUSINESS_ACCOUNT_ID);
+  }
+
+  // Without credentials nothing is verified automatically unless explicitly configured
+  const result = (SOCIAL_VERIFIER_STUB_RESULT || "pending") as VerificationStatus;
+  return new StubSocialVerifier(result);
+}
+
+export const socialVerifier = createSocialVerifier();
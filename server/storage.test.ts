@@ -0,0 +1,113 @@
+import { describe, it, before, after, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { type Drop } from "@shared/schema";
+import { db } from "./db";
+import { DatabaseStorage, MemStorage, signupTier, type IStorage } from "./storage";
+
+const PARALLEL_JOINS = 300;
+const DUPLICATE_RACES = 20;
+// Callers racing each other for every duplicated email
+const RACERS_PER_EMAIL = 5;
+
+function concurrencySuite(name: string, makeStorage: () => IStorage) {
+  describe(`${name} concurrent joins`, () => {
+    let storage: IStorage;
+    let drop: Drop;
+
+    before(async () => {
+      storage = makeStorage();
+      drop = await storage.createDrop({
+        name: `Concurrency test ${Date.now()}`,
+        dropTime: new Date(Date.now() + 60 * 60 * 1000),
+        maxQueueSize: PARALLEL_JOINS + DUPLICATE_RACES,
+        waitlistEnabled: false,
+        accessWindowMinutes: 5,
+        emailVerificationMinutes: 30,
+        admissionBatchSize: 10,
+        admissionIntervalSeconds: 60,
+      });
+    });
+
+    after(async () => {
+      await storage.deleteDrop(drop.id);
+    });
+
+    it("hands out positions 1..n with no gaps or repeats", async () => {
+      const joins = Array.from({ length: PARALLEL_JOINS }, (_, i) =>
+        storage.createQueueEntry(drop.id, { email: `parallel-${i}@example.com`, notifications: false, smsConsent: false }));
+      const entries = await Promise.all(joins);
+
+      const positions = entries.map(entry => entry.position).sort((a, b) => a - b);
+      assert.deepEqual(positions, Array.from({ length: PARALLEL_JOINS }, (_, i) => i + 1));
+    });
+
+    it("lets exactly one of several same-email joins through", async () => {
+      const races = Array.from({ length: DUPLICATE_RACES }, (_, i) => `race-${i}@example.com`)
+        .flatMap(email => Array.from({ length: RACERS_PER_EMAIL }, () =>
+          storage.createQueueEntry(drop.id, { email, notifications: false, smsConsent: false })));
+      const results = await Promise.allSettled(races);
+
+      const created = results.filter(result => result.status === "fulfilled");
+      const rejected = results.filter((result): result is PromiseRejectedResult => result.status === "rejected");
+      assert.equal(created.length, DUPLICATE_RACES);
+      assert.equal(rejected.length, DUPLICATE_RACES * (RACERS_PER_EMAIL - 1));
+      for (const { reason } of rejected) {
+        // A raw unique_violation (23505) must never reach the route
+        assert.equal((reason as Error).message, "Email already exists in queue");
+      }
+
+      const positions = (await storage.getAllQueueEntries(drop.id)).map(entry => entry.position).sort((a, b) => a - b);
+      assert.deepEqual(positions, Array.from({ length: PARALLEL_JOINS + DUPLICATE_RACES }, (_, i) => i + 1));
+    });
+  });
+}
+
+describe("signupTier", () => {
+  const capped = { maxQueueSize: 2, waitlistEnabled: true };
+
+  it("places sign-ups in the queue until the cap is reached", () => {
+    assert.equal(signupTier(capped, 1, false), "queue");
+    assert.equal(signupTier(capped, 2, false), "waitlist");
+    assert.equal(signupTier(undefined, 1000, false), "queue");
+  });
+
+  it("keeps freed spots for confirmed people already on the waitlist", () => {
+    assert.equal(signupTier(capped, 1, true), "waitlist");
+  });
+
+  it("refuses sign-ups past the cap when the drop has no waitlist", () => {
+    const noWaitlist = { ...capped, waitlistEnabled: false };
+    assert.throws(() => signupTier(noWaitlist, 2, false), { message: "Queue is full" });
+    assert.throws(() => signupTier(noWaitlist, 1, true), { message: "Queue is full" });
+  });
+});
+
+// Without a database, the transaction itself is stubbed to fail the way Postgres does
+describe("DatabaseStorage.createQueueEntry errors", () => {
+  const join = () => new DatabaseStorage().createQueueEntry("drop-1", { email: "someone@example.com", notifications: false, smsConsent: false });
+  const failTransaction = (error: unknown) => mock.method(db, "transaction", async () => { throw error; });
+
+  afterEach(() => mock.restoreAll());
+
+  it("reports a unique_violation as a duplicate email, whether or not the driver error is wrapped", async () => {
+    const violation = Object.assign(new Error("duplicate key value violates unique constraint"), { code: "23505" });
+
+    failTransaction(violation);
+    await assert.rejects(join(), { message: "Email already exists in queue" });
+
+    mock.restoreAll();
+    failTransaction(Object.assign(new Error("Failed query"), { cause: violation }));
+    await assert.rejects(join(), { message: "Email already exists in queue" });
+  });
+
+  it("passes other errors through", async () => {
+    failTransaction(Object.assign(new Error("deadlock detected"), { code: "40P01" }));
+    await assert.rejects(join(), { message: "deadlock detected" });
+  });
+});
+
+concurrencySuite("MemStorage", () => new MemStorage());
+
+if (process.env.TEST_DATABASE_URL) {
+  concurrencySuite("DatabaseStorage", () => new DatabaseStorage());
+}
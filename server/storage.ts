@@ -1,111 +1,748 @@
-import { type QueueEntry, type InsertQueueEntry, type Drop, type InsertDrop, type Settings, type InsertSettings, queueEntries, drops, settings } from "@shared/schema";
-import { randomUUID } from "crypto";
-import { db } from "./db";
-import { eq, desc, count } from "drizzle-orm";
+import { type QueueEntry, type InsertQueueEntry, type Drop, type InsertDrop, type Settings, type InsertSettings, type AdminUser, type InsertAdminUser, type AdminRole, type AuditLog, type InsertAuditLog, type SocialVerification, type InsertSocialVerification, type VerificationStatus, type BoostClaim, type DropNotification, type DropStatus, type UpdateDrop, type QueueTier, type SignupMetadata, type AdminQueueQuery, type QueueEntryPage, type Ban, type InsertBan, type DropAnalytics, type JoinTimelinePoint, type AnalyticsInterval, banCovers, domainSuffixes, canTransitionDrop, initialDropStatus, queueEntries, drops, settings, adminUsers, auditLogs, socialVerifications, bans } from "@shared/schema";
+import { randomUUID, randomBytes } from "crypto";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { db, pool } from "./db";
+import { eq, and, or, gt, gte, lt, lte, asc, desc, count, countDistinct, min, max, isNull, isNotNull, inArray, ilike, sql, type SQL, type AnyColumn } from "drizzle-orm";
+
+const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Serialize position changes within a drop's queue for the rest of the transaction
+async function lockDropQueue(tx: Transaction, dropId: string) {
+  await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${dropId}))`);
+}
+
+// Postgres unique_violation, e.g. two concurrent joins with the same email
+function isUniqueViolation(error: unknown): boolean {
+  const code = (error as { code?: string })?.code ?? (error as { cause?: { code?: string } })?.cause?.code;
+  return code === "23505";
+}
+
+// Listing cursors carry the sort key of the last row sent, opaque to clients
+type CursorKey = (string | number)[];
+
+function encodeCursor(key: CursorKey): string {
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+function decodeCursor(cursor: string, length: number): CursorKey {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (Array.isArray(key) && key.length === length) return key;
+  } catch {}
+  throw new Error("Invalid cursor");
+}
+
+// Tier for a new sign-up: past the drop's cap it goes to the waitlist, or is refused without one. A spot freed since
+// the last promotion belongs to the confirmed people already waiting, so while there are any the queue is full.
+export function signupTier(drop: Pick<Drop, "maxQueueSize" | "waitlistEnabled"> | undefined, spotsTaken: number, confirmedWaitlist: boolean): QueueTier {
+  const full = !!drop?.maxQueueSize && (spotsTaken >= drop.maxQueueSize || confirmedWaitlist);
+  if (full && !drop?.waitlistEnabled) {
+    throw new Error("Queue is full");
+  }
+  return full ? "waitlist" : "queue";
+}
+
+// Consent only counts when there is a number to text
+function smsConsentFields(entry: InsertQueueEntry, now = new Date()) {
+  const smsConsent = entry.smsConsent && !!entry.phone;
+  return { smsConsent, smsConsentAt: smsConsent ? now : null };
+}
+
+export interface AdmissionStats {
+  admitted: number;
+  firstAdmittedAt: Date | null;
+  lastAdmittedAt: Date | null;
+}
+
+// Narrows bulk reads such as the admin export; joinedFrom and joinedTo are inclusive
+export interface QueueEntryFilter {
+  dropId?: string;
+  joinedFrom?: Date;
+  joinedTo?: Date;
+}
+
+export interface QueueImportResult {
+  // In queue order
+  created: QueueEntry[];
+  // Emails the drop already had, left untouched
+  skipped: string[];
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   getQueueEntry(id: string): Promise<QueueEntry | undefined>;
-  getQueueEntryByEmail(email: string): Promise<QueueEntry | undefined>;
-  createQueueEntry(entry: InsertQueueEntry): Promise<QueueEntry>;
-  getAllQueueEntries(): Promise<QueueEntry[]>;
-  getQueuePosition(email: string): Promise<number | null>;
-  getTotalQueueSize(): Promise<number>;
+  getQueueEntryByEmail(dropId: string, email: string): Promise<QueueEntry | undefined>;
+  getQueueEntryByStatusToken(statusToken: string): Promise<QueueEntry | undefined>;
+  createQueueEntry(dropId: string, entry: InsertQueueEntry, signup?: SignupMetadata): Promise<QueueEntry>;
+  // Entries in a drop that signed up from this IP address
+  countQueueEntriesFromIp(dropId: string, ip: string): Promise<number>;
+  getAllQueueEntries(dropId?: string): Promise<QueueEntry[]>;
+  // Admin listing with search, filters and keyset pagination; throws "Invalid cursor" for a cursor it didn't issue
+  listQueueEntries(query: AdminQueueQuery): Promise<QueueEntryPage>;
+  // Matching entries in join order, a batch at a time, so exports never hold the whole queue in memory
+  iterateQueueEntries(filter: QueueEntryFilter, batchSize?: number): AsyncGenerator<QueueEntry[]>;
+  getQueuePosition(dropId: string, email: string): Promise<number | null>;
+  getTotalQueueSize(dropId: string, tier?: QueueTier): Promise<number>;
   deleteQueueEntry(id: string): Promise<boolean>;
-  updateQueueEntryInstagram(email: string, instagramUsername: string): Promise<QueueEntry | undefined>;
+  moveQueueEntry(id: string, targetPosition: number): Promise<QueueEntry | undefined>;
+  updateQueueEntryInstagram(dropId: string, email: string, instagramUsername: string, boostSize: number): Promise<QueueEntry | undefined>;
+  promoteFromWaitlist(dropId: string): Promise<QueueEntry[]>;
+  // Clears an applied Instagram boost and moves the entry back down by boostSize
+  revertInstagramBoost(id: string, boostSize: number): Promise<QueueEntry | undefined>;
+
+  // Admin bulk import
+  // Which of these emails the drop already has, compared case-insensitively and returned lowercased
+  getExistingQueueEmails(dropId: string, emails: string[]): Promise<string[]>;
+  importQueueEntries(dropId: string, entries: InsertQueueEntry[], startPosition?: number): Promise<QueueImportResult>;
+
+  // Email double opt-in
+  verifyQueueEntryEmail(id: string): Promise<QueueEntry | undefined>;
+  expireUnverifiedEntries(now?: Date): Promise<number>;
+
+  // Admission waves and reserved-access tokens
+  admitNextEntries(dropId: string, batchSize: number, windowMinutes: number): Promise<QueueEntry[]>;
+  countWaitingAhead(dropId: string, tier: QueueTier, position: number): Promise<number>;
+  getAdmissionStats(dropId: string): Promise<AdmissionStats>;
+  redeemAccessToken(entryId: string, tokenId: string): Promise<QueueEntry | undefined>;
+  releaseExpiredAccessTokens(): Promise<number>;
+
+  // Shopify checkout
+  setShopifyCheckout(entryId: string, draftOrderId: string, checkoutUrl: string): Promise<QueueEntry | undefined>;
+  markEntryPurchased(entryId: string, orderId: string): Promise<QueueEntry | undefined>;
   
   // Drop management
   createDrop(drop: InsertDrop): Promise<Drop>;
   getActiveDrop(): Promise<Drop | undefined>;
+  getDrop(id: string): Promise<Drop | undefined>;
   getAllDrops(): Promise<Drop[]>;
-  updateDrop(id: string, updates: Partial<InsertDrop>): Promise<Drop | undefined>;
+  updateDrop(id: string, updates: UpdateDrop): Promise<Drop | undefined>;
+  transitionDropStatus(id: string, from: DropStatus, to: DropStatus): Promise<Drop | undefined>;
   deleteDrop(id: string): Promise<boolean>;
+  markDropNotified(id: string, notification: DropNotification): Promise<boolean>;
+  claimAdmissionWave(id: string, intervalSeconds: number): Promise<boolean>;
+  setSmsOptOut(phone: string, optedOut: boolean): Promise<number>;
   
   // Settings management
   getSettings(): Promise<Settings | undefined>;
   updateSettings(settings: InsertSettings): Promise<Settings>;
+
+  // Social boost verifications
+  createSocialVerification(verification: InsertSocialVerification): Promise<SocialVerification>;
+  updateSocialVerificationStatus(id: string, status: VerificationStatus, detail?: string): Promise<SocialVerification | undefined>;
+  getLatestSocialVerification(queueEntryId: string): Promise<SocialVerification | undefined>;
+  getSocialVerification(id: string): Promise<SocialVerification | undefined>;
+  getBoostClaims(status?: VerificationStatus): Promise<BoostClaim[]>;
+
+  // Admin users
+  getAdminUser(id: string): Promise<AdminUser | undefined>;
+  getAdminUserByUsername(username: string): Promise<AdminUser | undefined>;
+  createAdminUser(user: InsertAdminUser): Promise<AdminUser>;
+  countAdminUsers(): Promise<number>;
+  getAllAdminUsers(): Promise<AdminUser[]>;
+  updateAdminUserRole(id: string, role: AdminRole): Promise<AdminUser | undefined>;
+  deleteAdminUser(id: string): Promise<boolean>;
+
+  // Banned emails and domains
+  createBan(ban: InsertBan, createdBy: string): Promise<Ban>;
+  getBans(): Promise<Ban[]>;
+  deleteBan(id: string): Promise<Ban | undefined>;
+  // The ban covering this address, directly or through its domain
+  findBanForEmail(email: string): Promise<Ban | undefined>;
+  // Removes the entries a ban covers from every drop, closing the gaps they leave
+  removeBannedEntries(ban: Ban): Promise<QueueEntry[]>;
+
+  // Drop analytics; every drop, newest drop time first
+  getDropAnalytics(): Promise<DropAnalytics[]>;
+  // Sign-ups per minute or hour (UTC), oldest first; buckets without sign-ups are left out
+  getJoinTimeline(dropId: string, interval: AnalyticsInterval): Promise<JoinTimelinePoint[]>;
+
+  // Audit trail
+  createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
+  getAuditLogs(limit: number): Promise<AuditLog[]>;
 }
 
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
   async getQueueEntry(id: string): Promise<QueueEntry | undefined> {
     const [entry] = await db.select().from(queueEntries).where(eq(queueEntries.id, id));
     return entry || undefined;
   }
 
-  async getQueueEntryByEmail(email: string): Promise<QueueEntry | undefined> {
-    const [entry] = await db.select().from(queueEntries).where(eq(queueEntries.email, email));
+  async getQueueEntryByEmail(dropId: string, email: string): Promise<QueueEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(queueEntries)
+      .where(and(eq(queueEntries.dropId, dropId), eq(queueEntries.email, email)));
     return entry || undefined;
   }
 
-  async createQueueEntry(insertEntry: InsertQueueEntry): Promise<QueueEntry> {
-    // Check if email already exists
-    const existing = await this.getQueueEntryByEmail(insertEntry.email);
-    if (existing) {
-      throw new Error("Email already exists in queue");
+  async getQueueEntryByStatusToken(statusToken: string): Promise<QueueEntry | undefined> {
+    const [entry] = await db.select().from(queueEntries).where(eq(queueEntries.statusToken, statusToken));
+    return entry || undefined;
+  }
+
+  async createQueueEntry(dropId: string, insertEntry: InsertQueueEntry, signup?: SignupMetadata): Promise<QueueEntry> {
+    try {
+      return await db.transaction(async (tx) => {
+        await lockDropQueue(tx, dropId);
+
+        // Check if email already exists in this drop's queue
+        const [existing] = await tx
+          .select({ id: queueEntries.id })
+          .from(queueEntries)
+          .where(and(eq(queueEntries.dropId, dropId), eq(queueEntries.email, insertEntry.email)));
+        if (existing) {
+          throw new Error("Email already exists in queue");
+        }
+
+        const [drop] = await tx.select().from(drops).where(eq(drops.id, dropId));
+        const tier = signupTier(drop, await this.countQueueSpotsTaken(tx, dropId), await this.hasConfirmedWaitlist(tx, dropId));
+
+        // Next position after the last one handed out in this tier
+        const [result] = await tx
+          .select({ maxPosition: max(queueEntries.position) })
+          .from(queueEntries)
+          .where(and(eq(queueEntries.dropId, dropId), eq(queueEntries.tier, tier)));
+        const position = (result.maxPosition ?? 0) + 1;
+
+        const [entry] = await tx
+          .insert(queueEntries)
+          .values({
+            ...insertEntry,
+            ...signup,
+            ...smsConsentFields(insertEntry),
+            dropId,
+            tier,
+            position,
+          })
+          .returning();
+
+        return entry;
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new Error("Email already exists in queue");
+      }
+      throw error;
     }
+  }
 
-    // Get the actual database count (not including mock base)
-    const [result] = await db.select({ count: count() }).from(queueEntries);
-    const actualDbCount = result.count;
-    
-    // Start positions after the mock base of 283 people
-    const position = 284 + actualDbCount;
-    
-    const [entry] = await db
-      .insert(queueEntries)
-      .values({
-        ...insertEntry,
-        position,
-      })
-      .returning();
-    
-    return entry;
+  async countQueueEntriesFromIp(dropId: string, ip: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(queueEntries)
+      .where(and(eq(queueEntries.dropId, dropId), eq(queueEntries.signupIp, ip)));
+    return result.count;
   }
 
-  async getAllQueueEntries(): Promise<QueueEntry[]> {
-    return await db.select().from(queueEntries).orderBy(queueEntries.position);
+  async getAllQueueEntries(dropId?: string): Promise<QueueEntry[]> {
+    return await db
+      .select()
+      .from(queueEntries)
+      .where(dropId ? eq(queueEntries.dropId, dropId) : undefined)
+      // The queue before the waitlist ("queue" sorts first)
+      .orderBy(queueEntries.tier, queueEntries.position);
   }
 
-  async getQueuePosition(email: string): Promise<number | null> {
-    const entry = await this.getQueueEntryByEmail(email);
+  async listQueueEntries(query: AdminQueueQuery): Promise<QueueEntryPage> {
+    // Flags are nullable on older rows, where null means off
+    const flag = (column: AnyColumn, value: boolean) => sql`coalesce(${column}, false) = ${value}`;
+    const pattern = query.search && `%${query.search.replace(/[\\%_]/g, "\\$&")}%`;
+    const filters = and(
+      query.dropId ? eq(queueEntries.dropId, query.dropId) : undefined,
+      pattern ? or(
+        ilike(queueEntries.email, pattern),
+        ilike(queueEntries.phone, pattern),
+        ilike(queueEntries.instagramUsername, pattern),
+      ) : undefined,
+      query.boosted !== undefined ? flag(queueEntries.instagramBoostUsed, query.boosted) : undefined,
+      query.notifications !== undefined ? flag(queueEntries.notifications, query.notifications) : undefined,
+    );
+
+    // Every sort ends on the id so the key is unique. joined_at travels as text to keep its microseconds.
+    const byJoinedAt = query.sort === "joinedAt";
+    const direction = query.order === "desc" ? desc : asc;
+    const columns = byJoinedAt
+      ? [queueEntries.joinedAt, queueEntries.id]
+      : [queueEntries.tier, queueEntries.position, queueEntries.id];
+
+    let after: SQL | undefined;
+    if (query.cursor) {
+      const key = decodeCursor(query.cursor, columns.length);
+      const values = byJoinedAt
+        ? sql`(${key[0]}::timestamp, ${key[1]})`
+        : sql`(${key[0]}, ${key[1]}::integer, ${key[2]})`;
+      after = sql`(${sql.join(columns, sql`, `)}) ${query.order === "desc" ? sql`<` : sql`>`} ${values}`;
+    }
+
+    const rows = await db
+      .select({ entry: queueEntries, joinedAt: sql<string>`${queueEntries.joinedAt}::text` })
+      .from(queueEntries)
+      .where(and(filters, after))
+      .orderBy(...columns.map(column => direction(column)))
+      // One extra row tells whether there is a next page
+      .limit(query.limit + 1);
+    const [{ total }] = await db.select({ total: count() }).from(queueEntries).where(filters);
+
+    const page = rows.slice(0, query.limit);
+    const last = page[page.length - 1];
+    const nextCursor = rows.length > query.limit
+      ? encodeCursor(byJoinedAt ? [last.joinedAt, last.entry.id] : [last.entry.tier, last.entry.position, last.entry.id])
+      : null;
+
+    return { entries: page.map(row => row.entry), nextCursor, total };
+  }
+
+  async *iterateQueueEntries(filter: QueueEntryFilter, batchSize = 500): AsyncGenerator<QueueEntry[]> {
+    // Keyset pagination on (joined_at, id). The cursor keeps joined_at as text, since a JS Date would
+    // drop the microseconds Postgres stores and repeat rows at batch boundaries.
+    let after: { joinedAt: string; id: string } | undefined;
+
+    while (true) {
+      const rows = await db
+        .select({ entry: queueEntries, joinedAt: sql<string>`${queueEntries.joinedAt}::text` })
+        .from(queueEntries)
+        .where(and(
+          filter.dropId ? eq(queueEntries.dropId, filter.dropId) : undefined,
+          filter.joinedFrom ? gte(queueEntries.joinedAt, filter.joinedFrom) : undefined,
+          filter.joinedTo ? lte(queueEntries.joinedAt, filter.joinedTo) : undefined,
+          after ? sql`(${queueEntries.joinedAt}, ${queueEntries.id}) > (${after.joinedAt}::timestamp, ${after.id})` : undefined,
+        ))
+        .orderBy(queueEntries.joinedAt, queueEntries.id)
+        .limit(batchSize);
+
+      if (rows.length > 0) yield rows.map(row => row.entry);
+      if (rows.length < batchSize) return;
+
+      const last = rows[rows.length - 1];
+      after = { joinedAt: last.joinedAt, id: last.entry.id };
+    }
+  }
+
+  async getQueuePosition(dropId: string, email: string): Promise<number | null> {
+    const entry = await this.getQueueEntryByEmail(dropId, email);
     return entry ? entry.position : null;
   }
 
-  async getTotalQueueSize(): Promise<number> {
-    const [result] = await db.select({ count: count() }).from(queueEntries);
-    // Add mock base size of 283 to maintain consistency
-    return result.count + 283;
+  async getTotalQueueSize(dropId: string, tier: QueueTier = "queue"): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(queueEntries)
+      .where(and(eq(queueEntries.dropId, dropId), eq(queueEntries.tier, tier)));
+    return result.count;
   }
 
   async deleteQueueEntry(id: string): Promise<boolean> {
-    const result = await db.delete(queueEntries).where(eq(queueEntries.id, id));
-    return (result.rowCount || 0) > 0;
+    return await db.transaction(async (tx) => {
+      const entry = await this.lockEntry(tx, id);
+      if (!entry) return false;
+
+      await tx.delete(queueEntries).where(eq(queueEntries.id, id));
+
+      // Close the gap so positions stay 1 apart
+      await this.closePositionGap(tx, entry);
+
+      return true;
+    });
   }
 
-  async updateQueueEntryInstagram(email: string, instagramUsername: string): Promise<QueueEntry | undefined> {
-    // First get current position
-    const currentEntry = await this.getQueueEntryByEmail(email);
-    if (!currentEntry) return undefined;
-    
-    const newPosition = Math.max(1, currentEntry.position - 100);
-    
-    const [updatedEntry] = await db
+  async moveQueueEntry(id: string, targetPosition: number): Promise<QueueEntry | undefined> {
+    return await db.transaction(async (tx) => {
+      const entry = await this.lockEntry(tx, id);
+      if (!entry) return undefined;
+
+      return await this.repositionEntry(tx, entry, targetPosition);
+    });
+  }
+
+  async revertInstagramBoost(id: string, boostSize: number): Promise<QueueEntry | undefined> {
+    return await db.transaction(async (tx) => {
+      const entry = await this.lockEntry(tx, id);
+      if (!entry?.instagramBoostUsed) return undefined;
+
+      const [cleared] = await tx
+        .update(queueEntries)
+        .set({ instagramUsername: null, instagramBoostUsed: false })
+        .where(eq(queueEntries.id, id))
+        .returning();
+
+      return await this.repositionEntry(tx, cleared, entry.position + boostSize);
+    });
+  }
+
+  async updateQueueEntryInstagram(dropId: string, email: string, instagramUsername: string, boostSize: number): Promise<QueueEntry | undefined> {
+    return await db.transaction(async (tx) => {
+      await lockDropQueue(tx, dropId);
+
+      const [currentEntry] = await tx
+        .select()
+        .from(queueEntries)
+        .where(and(eq(queueEntries.dropId, dropId), eq(queueEntries.email, email)));
+      if (!currentEntry) return undefined;
+
+      const [updatedEntry] = await tx
+        .update(queueEntries)
+        .set({
+          instagramUsername,
+          instagramBoostUsed: true,
+        })
+        .where(eq(queueEntries.id, currentEntry.id))
+        .returning();
+
+      return await this.repositionEntry(tx, updatedEntry, currentEntry.position - boostSize);
+    });
+  }
+
+  // Moves the head of the waitlist into free queue spots, appending each to the end of the queue
+  async promoteFromWaitlist(dropId: string): Promise<QueueEntry[]> {
+    return await db.transaction(async (tx) => {
+      await lockDropQueue(tx, dropId);
+
+      const [drop] = await tx.select().from(drops).where(eq(drops.id, dropId));
+      if (!drop) return [];
+
+      const freeSpots = drop.maxQueueSize ? drop.maxQueueSize - await this.countQueueSpotsTaken(tx, dropId) : Infinity;
+      const promoted: QueueEntry[] = [];
+
+      while (promoted.length < freeSpots) {
+        const [head] = await tx
+          .select()
+          .from(queueEntries)
+          .where(and(eq(queueEntries.dropId, dropId), eq(queueEntries.tier, "waitlist"), isNotNull(queueEntries.emailVerifiedAt)))
+          .orderBy(queueEntries.position)
+          .limit(1);
+        if (!head) break;
+
+        const [last] = await tx
+          .select({ maxPosition: max(queueEntries.position) })
+          .from(queueEntries)
+          .where(and(eq(queueEntries.dropId, dropId), eq(queueEntries.tier, "queue")));
+
+        const [entry] = await tx
+          .update(queueEntries)
+          .set({ tier: "queue", position: (last.maxPosition ?? 0) + 1 })
+          .where(eq(queueEntries.id, head.id))
+          .returning();
+        await this.closePositionGap(tx, head);
+        promoted.push(entry);
+      }
+
+      return promoted;
+    });
+  }
+
+  async getExistingQueueEmails(dropId: string, emails: string[]): Promise<string[]> {
+    return await this.selectExistingEmails(db, dropId, emails);
+  }
+
+  // Imported entries go into the queue tier as confirmed sign-ups, past the drop's cap if need be: they are
+  // placed from startPosition on (after the last entry when unset) and everyone from there back moves down.
+  async importQueueEntries(dropId: string, entries: InsertQueueEntry[], startPosition?: number): Promise<QueueImportResult> {
+    return await db.transaction(async (tx) => {
+      await lockDropQueue(tx, dropId);
+
+      // Re-checked under the lock: people may have joined since a dry run
+      const existing = await this.selectExistingEmails(tx, dropId, entries.map(entry => entry.email));
+      const skipped = new Set(existing);
+      const fresh = entries.filter(entry => !skipped.has(entry.email.toLowerCase()));
+      if (fresh.length === 0) return { created: [], skipped: existing };
+
+      const [result] = await tx
+        .select({ maxPosition: max(queueEntries.position) })
+        .from(queueEntries)
+        .where(and(eq(queueEntries.dropId, dropId), eq(queueEntries.tier, "queue")));
+      const last = result.maxPosition ?? 0;
+      const start = Math.min(Math.max(startPosition ?? last + 1, 1), last + 1);
+
+      await tx
+        .update(queueEntries)
+        .set({ position: sql`${queueEntries.position} + ${fresh.length}` })
+        .where(and(
+          eq(queueEntries.dropId, dropId),
+          eq(queueEntries.tier, "queue"),
+          gte(queueEntries.position, start),
+        ));
+
+      const now = new Date();
+      const rows = fresh.map((entry, index) => ({
+        ...entry,
+        ...smsConsentFields(entry, now),
+        dropId,
+        tier: "queue" as const,
+        position: start + index,
+        // The admin vouches for the address, so there is no confirmation link to wait for
+        emailVerifiedAt: now,
+      }));
+
+      // In chunks, to stay well under Postgres' limit on bind parameters per statement
+      const created: QueueEntry[] = [];
+      for (let i = 0; i < rows.length; i += 500) {
+        created.push(...await tx.insert(queueEntries).values(rows.slice(i, i + 500)).returning());
+      }
+
+      return { created: created.sort((a, b) => a.position - b.position), skipped: existing };
+    });
+  }
+
+  // Unconfirmed entries are skipped; they keep their place until they confirm or expire
+  async verifyQueueEntryEmail(id: string): Promise<QueueEntry | undefined> {
+    const [entry] = await db
       .update(queueEntries)
-      .set({ 
-        instagramUsername,
-        instagramBoostUsed: true,
-        position: newPosition
+      .set({ emailVerifiedAt: new Date() })
+      .where(and(eq(queueEntries.id, id), isNull(queueEntries.emailVerifiedAt)))
+      .returning();
+    return entry || undefined;
+  }
+
+  // Removes entries whose drop's confirmation window has passed, closing the gaps they leave
+  async expireUnverifiedEntries(now = new Date()): Promise<number> {
+    const expired = await db
+      .select({ id: queueEntries.id })
+      .from(queueEntries)
+      .innerJoin(drops, eq(queueEntries.dropId, drops.id))
+      .where(and(
+        isNull(queueEntries.emailVerifiedAt),
+        lte(sql`${queueEntries.joinedAt} + ${drops.emailVerificationMinutes} * interval '1 minute'`, now),
+      ));
+
+    let removed = 0;
+    for (const { id } of expired) {
+      const deleted = await db.transaction(async (tx) => {
+        const entry = await this.lockEntry(tx, id);
+        // Confirmed or removed since it was selected
+        if (!entry || entry.emailVerifiedAt) return false;
+
+        await tx.delete(queueEntries).where(eq(queueEntries.id, id));
+        await this.closePositionGap(tx, entry);
+        await tx
+          .update(drops)
+          .set({ expiredSignups: sql`${drops.expiredSignups} + 1` })
+          .where(eq(drops.id, entry.dropId));
+        return true;
+      });
+      if (deleted) removed++;
+    }
+    return removed;
+  }
+
+  // Lets in the next batch of not-yet-admitted entries by position and opens their access windows
+  async admitNextEntries(dropId: string, batchSize: number, windowMinutes: number): Promise<QueueEntry[]> {
+    return await db.transaction(async (tx) => {
+      await lockDropQueue(tx, dropId);
+
+      const next = await tx
+        .select({ id: queueEntries.id })
+        .from(queueEntries)
+        .where(and(
+          eq(queueEntries.dropId, dropId),
+          eq(queueEntries.tier, "queue"),
+          isNull(queueEntries.admittedAt),
+          isNotNull(queueEntries.emailVerifiedAt),
+        ))
+        .orderBy(queueEntries.position)
+        .limit(batchSize);
+      if (next.length === 0) return [];
+
+      const admittedAt = new Date();
+      return await tx
+        .update(queueEntries)
+        .set({
+          admittedAt,
+          accessTokenId: sql`gen_random_uuid()`,
+          accessTokenIssuedAt: admittedAt,
+          accessTokenExpiresAt: new Date(admittedAt.getTime() + windowMinutes * 60 * 1000),
+        })
+        .where(inArray(queueEntries.id, next.map(entry => entry.id)))
+        .returning();
+    });
+  }
+
+  // Confirmed entries still waiting for admission ahead of the given position; the whole queue is ahead of the waitlist
+  async countWaitingAhead(dropId: string, tier: QueueTier, position: number): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(queueEntries)
+      .where(and(
+        eq(queueEntries.dropId, dropId),
+        isNull(queueEntries.admittedAt),
+        isNotNull(queueEntries.emailVerifiedAt),
+        tier === "queue"
+          ? and(eq(queueEntries.tier, "queue"), lt(queueEntries.position, position))
+          : or(eq(queueEntries.tier, "queue"), lt(queueEntries.position, position)),
+      ));
+    return result.count;
+  }
+
+  async getAdmissionStats(dropId: string): Promise<AdmissionStats> {
+    const [result] = await db
+      .select({
+        admitted: count(queueEntries.admittedAt),
+        firstAdmittedAt: min(queueEntries.admittedAt),
+        lastAdmittedAt: max(queueEntries.admittedAt),
       })
-      .where(eq(queueEntries.email, email))
+      .from(queueEntries)
+      .where(eq(queueEntries.dropId, dropId));
+    return result;
+  }
+
+  // Single use: only succeeds for the current token while it is inside its window
+  async redeemAccessToken(entryId: string, tokenId: string): Promise<QueueEntry | undefined> {
+    const [entry] = await db
+      .update(queueEntries)
+      .set({ accessTokenRedeemedAt: new Date() })
+      .where(and(
+        eq(queueEntries.id, entryId),
+        eq(queueEntries.accessTokenId, tokenId),
+        isNull(queueEntries.accessTokenRedeemedAt),
+        isNull(queueEntries.accessReleasedAt),
+        gt(queueEntries.accessTokenExpiresAt, new Date()),
+      ))
       .returning();
-    
-    return updatedEntry || undefined;
+    return entry || undefined;
+  }
+
+  async releaseExpiredAccessTokens(): Promise<number> {
+    const result = await db
+      .update(queueEntries)
+      .set({ accessReleasedAt: new Date() })
+      .where(and(
+        lte(queueEntries.accessTokenExpiresAt, new Date()),
+        isNull(queueEntries.accessTokenRedeemedAt),
+        isNull(queueEntries.accessReleasedAt),
+      ));
+    return result.rowCount || 0;
+  }
+
+  async setShopifyCheckout(entryId: string, draftOrderId: string, checkoutUrl: string): Promise<QueueEntry | undefined> {
+    const [entry] = await db
+      .update(queueEntries)
+      .set({ shopifyDraftOrderId: draftOrderId, shopifyCheckoutUrl: checkoutUrl })
+      .where(eq(queueEntries.id, entryId))
+      .returning();
+    return entry || undefined;
+  }
+
+  // Idempotent for webhook retries: only the first delivery records the purchase
+  async markEntryPurchased(entryId: string, orderId: string): Promise<QueueEntry | undefined> {
+    const [entry] = await db
+      .update(queueEntries)
+      .set({ shopifyOrderId: orderId, purchasedAt: new Date() })
+      .where(and(eq(queueEntries.id, entryId), isNull(queueEntries.purchasedAt)))
+      .returning();
+    return entry || undefined;
+  }
+
+  // Entries holding one of the drop's capped queue spots; a released access slot frees its spot
+  private async countQueueSpotsTaken(tx: Transaction, dropId: string): Promise<number> {
+    const [result] = await tx
+      .select({ count: count() })
+      .from(queueEntries)
+      .where(and(eq(queueEntries.dropId, dropId), eq(queueEntries.tier, "queue"), isNull(queueEntries.accessReleasedAt)));
+    return result.count;
+  }
+
+  private async hasConfirmedWaitlist(tx: Transaction, dropId: string): Promise<boolean> {
+    const [waiting] = await tx
+      .select({ id: queueEntries.id })
+      .from(queueEntries)
+      .where(and(eq(queueEntries.dropId, dropId), eq(queueEntries.tier, "waitlist"), isNotNull(queueEntries.emailVerifiedAt)))
+      .limit(1);
+    return !!waiting;
+  }
+
+  private async selectExistingEmails(executor: Transaction | typeof db, dropId: string, emails: string[]): Promise<string[]> {
+    if (emails.length === 0) return [];
+    const rows = await executor
+      .select({ email: sql<string>`lower(${queueEntries.email})` })
+      .from(queueEntries)
+      .where(and(
+        eq(queueEntries.dropId, dropId),
+        inArray(sql`lower(${queueEntries.email})`, emails.map(email => email.toLowerCase())),
+      ));
+    return rows.map(row => row.email);
+  }
+
+  // Shift everyone behind a removed entry in its tier up by one, so positions stay 1 apart
+  private async closePositionGap(tx: Transaction, removed: QueueEntry) {
+    await tx
+      .update(queueEntries)
+      .set({ position: sql`${queueEntries.position} - 1` })
+      .where(and(
+        eq(queueEntries.dropId, removed.dropId),
+        eq(queueEntries.tier, removed.tier),
+        gt(queueEntries.position, removed.position),
+      ));
+  }
+
+  // Load an entry and take its drop's queue lock, re-reading it once the lock is held
+  private async lockEntry(tx: Transaction, id: string): Promise<QueueEntry | undefined> {
+    const [unlocked] = await tx.select().from(queueEntries).where(eq(queueEntries.id, id));
+    if (!unlocked) return undefined;
+
+    await lockDropQueue(tx, unlocked.dropId);
+
+    const [entry] = await tx.select().from(queueEntries).where(eq(queueEntries.id, id));
+    return entry || undefined;
+  }
+
+  // Move an entry to the target rank within its tier, shifting everyone in between by one.
+  // Callers must hold the drop's queue lock.
+  private async repositionEntry(tx: Transaction, entry: QueueEntry, targetPosition: number): Promise<QueueEntry> {
+    const [bounds] = await tx
+      .select({ first: min(queueEntries.position), last: max(queueEntries.position) })
+      .from(queueEntries)
+      .where(and(eq(queueEntries.dropId, entry.dropId), eq(queueEntries.tier, entry.tier)));
+    const target = Math.min(Math.max(targetPosition, bounds.first ?? 1), bounds.last ?? entry.position);
+
+    if (target === entry.position) return entry;
+
+    if (target < entry.position) {
+      await tx
+        .update(queueEntries)
+        .set({ position: sql`${queueEntries.position} + 1` })
+        .where(and(
+          eq(queueEntries.dropId, entry.dropId),
+          eq(queueEntries.tier, entry.tier),
+          gte(queueEntries.position, target),
+          lt(queueEntries.position, entry.position),
+        ));
+    } else {
+      await tx
+        .update(queueEntries)
+        .set({ position: sql`${queueEntries.position} - 1` })
+        .where(and(
+          eq(queueEntries.dropId, entry.dropId),
+          eq(queueEntries.tier, entry.tier),
+          gt(queueEntries.position, entry.position),
+          lte(queueEntries.position, target),
+        ));
+    }
+
+    const [moved] = await tx
+      .update(queueEntries)
+      .set({ position: target })
+      .where(eq(queueEntries.id, entry.id))
+      .returning();
+
+    return moved;
   }
 
   // Drop management
   async createDrop(drop: InsertDrop): Promise<Drop> {
     const [newDrop] = await db
       .insert(drops)
-      .values(drop)
+      .values({ ...drop, status: initialDropStatus(drop) })
       .returning();
     
     return newDrop;
@@ -122,25 +759,92 @@ export class DatabaseStorage implements IStorage {
     return drop || undefined;
   }
 
+  async getDrop(id: string): Promise<Drop | undefined> {
+    const [drop] = await db.select().from(drops).where(eq(drops.id, id));
+    return drop || undefined;
+  }
+
   async getAllDrops(): Promise<Drop[]> {
     return await db.select().from(drops).orderBy(desc(drops.createdAt));
   }
 
-  async updateDrop(id: string, updates: Partial<InsertDrop>): Promise<Drop | undefined> {
+  async updateDrop(id: string, updates: UpdateDrop): Promise<Drop | undefined> {
+    const existing = await this.getDrop(id);
+    if (!existing) return undefined;
+
+    if (updates.status && !canTransitionDrop(existing.status, updates.status)) {
+      throw new Error("Invalid drop status transition");
+    }
+
+    // Moving the drop time re-arms the pre-drop reminder
+    const changes = updates.dropTime
+      ? { ...updates, reminderSentAt: sql`case when ${drops.dropTime} = ${updates.dropTime} then ${drops.reminderSentAt} end` }
+      : updates;
     const [updatedDrop] = await db
       .update(drops)
-      .set(updates)
-      .where(eq(drops.id, id))
+      .set(changes)
+      // A status change only applies if the drop hasn't moved on in the meantime, e.g. by the scheduler
+      .where(and(eq(drops.id, id), updates.status ? eq(drops.status, existing.status) : undefined))
       .returning();
-    
+
+    if (!updatedDrop && updates.status) {
+      throw new Error("Invalid drop status transition");
+    }
     return updatedDrop || undefined;
   }
 
+  // Compare-and-set, so concurrent schedulers (or an admin) can't apply the same transition twice
+  async transitionDropStatus(id: string, from: DropStatus, to: DropStatus): Promise<Drop | undefined> {
+    if (!canTransitionDrop(from, to)) {
+      throw new Error("Invalid drop status transition");
+    }
+
+    const [drop] = await db
+      .update(drops)
+      .set({ status: to })
+      .where(and(eq(drops.id, id), eq(drops.status, from)))
+      .returning();
+    return drop || undefined;
+  }
+
   async deleteDrop(id: string): Promise<boolean> {
     const result = await db.delete(drops).where(eq(drops.id, id));
     return (result.rowCount || 0) > 0;
   }
 
+  // Claims one of the drop's notification batches; false if it was already sent (e.g. by another instance)
+  async markDropNotified(id: string, notification: DropNotification): Promise<boolean> {
+    const [drop] = await db
+      .update(drops)
+      .set({ [notification]: new Date() })
+      .where(and(eq(drops.id, id), isNull(drops[notification])))
+      .returning({ id: drops.id });
+    return !!drop;
+  }
+
+  // Claims the next admission wave if the drop's interval has passed since the last one
+  async claimAdmissionWave(id: string, intervalSeconds: number): Promise<boolean> {
+    const now = new Date();
+    const [drop] = await db
+      .update(drops)
+      .set({ lastAdmissionAt: now })
+      .where(and(
+        eq(drops.id, id),
+        or(isNull(drops.lastAdmissionAt), lte(drops.lastAdmissionAt, new Date(now.getTime() - intervalSeconds * 1000))),
+      ))
+      .returning({ id: drops.id });
+    return !!drop;
+  }
+
+  // Applies a STOP (or START) reply to every entry with this number; returns how many changed
+  async setSmsOptOut(phone: string, optedOut: boolean): Promise<number> {
+    const result = await db
+      .update(queueEntries)
+      .set({ smsOptedOutAt: optedOut ? new Date() : null })
+      .where(eq(queueEntries.phone, phone));
+    return result.rowCount || 0;
+  }
+
   async getSettings(): Promise<Settings | undefined> {
     const [setting] = await db.select().from(settings).limit(1);
     return setting || undefined;
@@ -164,23 +868,249 @@ export class DatabaseStorage implements IStorage {
       return created;
     }
   }
+
+  // Social boost verifications
+  async createSocialVerification(verification: InsertSocialVerification): Promise<SocialVerification> {
+    const [created] = await db
+      .insert(socialVerifications)
+      .values(verification)
+      .returning();
+    return created;
+  }
+
+  async updateSocialVerificationStatus(id: string, status: VerificationStatus, detail?: string): Promise<SocialVerification | undefined> {
+    const [updated] = await db
+      .update(socialVerifications)
+      .set({
+        status,
+        detail,
+        decidedAt: status === "pending" ? null : new Date(),
+      })
+      .where(eq(socialVerifications.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getLatestSocialVerification(queueEntryId: string): Promise<SocialVerification | undefined> {
+    const [verification] = await db
+      .select()
+      .from(socialVerifications)
+      .where(eq(socialVerifications.queueEntryId, queueEntryId))
+      .orderBy(desc(socialVerifications.createdAt))
+      .limit(1);
+    return verification || undefined;
+  }
+
+  async getSocialVerification(id: string): Promise<SocialVerification | undefined> {
+    const [verification] = await db.select().from(socialVerifications).where(eq(socialVerifications.id, id));
+    return verification || undefined;
+  }
+
+  async getBoostClaims(status?: VerificationStatus): Promise<BoostClaim[]> {
+    const rows = await db
+      .select({
+        verification: socialVerifications,
+        email: queueEntries.email,
+        dropId: queueEntries.dropId,
+        position: queueEntries.position,
+      })
+      .from(socialVerifications)
+      .innerJoin(queueEntries, eq(socialVerifications.queueEntryId, queueEntries.id))
+      .where(status ? eq(socialVerifications.status, status) : undefined)
+      .orderBy(socialVerifications.createdAt);
+
+    return rows.map(({ verification, ...entry }) => ({ ...verification, ...entry }));
+  }
+
+  // Admin users
+  async getAdminUser(id: string): Promise<AdminUser | undefined> {
+    const [user] = await db.select().from(adminUsers).where(eq(adminUsers.id, id));
+    return user || undefined;
+  }
+
+  async getAdminUserByUsername(username: string): Promise<AdminUser | undefined> {
+    const [user] = await db.select().from(adminUsers).where(eq(adminUsers.username, username));
+    return user || undefined;
+  }
+
+  async createAdminUser(user: InsertAdminUser): Promise<AdminUser> {
+    const [created] = await db
+      .insert(adminUsers)
+      .values(user)
+      .returning();
+    return created;
+  }
+
+  async countAdminUsers(): Promise<number> {
+    const [result] = await db.select({ count: count() }).from(adminUsers);
+    return result.count;
+  }
+
+  async getAllAdminUsers(): Promise<AdminUser[]> {
+    return await db.select().from(adminUsers).orderBy(adminUsers.createdAt);
+  }
+
+  async updateAdminUserRole(id: string, role: AdminRole): Promise<AdminUser | undefined> {
+    const [updated] = await db
+      .update(adminUsers)
+      .set({ role })
+      .where(eq(adminUsers.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteAdminUser(id: string): Promise<boolean> {
+    const result = await db.delete(adminUsers).where(eq(adminUsers.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async createBan(ban: InsertBan, createdBy: string): Promise<Ban> {
+    try {
+      const [created] = await db.insert(bans).values({ ...ban, createdBy }).returning();
+      return created;
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new Error("Already banned");
+      }
+      throw error;
+    }
+  }
+
+  async getBans(): Promise<Ban[]> {
+    return await db.select().from(bans).orderBy(desc(bans.createdAt));
+  }
+
+  async deleteBan(id: string): Promise<Ban | undefined> {
+    const [deleted] = await db.delete(bans).where(eq(bans.id, id)).returning();
+    return deleted || undefined;
+  }
+
+  async findBanForEmail(email: string): Promise<Ban | undefined> {
+    const [ban] = await db
+      .select()
+      .from(bans)
+      .where(or(
+        and(eq(bans.kind, "email"), eq(bans.value, email.toLowerCase())),
+        and(eq(bans.kind, "domain"), inArray(bans.value, domainSuffixes(email))),
+      ))
+      .limit(1);
+    return ban || undefined;
+  }
+
+  async removeBannedEntries(ban: Ban): Promise<QueueEntry[]> {
+    // Domain values can't contain LIKE wildcards (see insertBanSchema)
+    const email = sql`lower(${queueEntries.email})`;
+    const covered = await db
+      .select({ id: queueEntries.id })
+      .from(queueEntries)
+      .where(ban.kind === "email"
+        ? sql`${email} = ${ban.value}`
+        : or(sql`${email} like ${"%@" + ban.value}`, sql`${email} like ${"%." + ban.value}`));
+
+    const removed: QueueEntry[] = [];
+    for (const { id } of covered) {
+      const entry = await db.transaction(async (tx) => {
+        const entry = await this.lockEntry(tx, id);
+        if (!entry) return undefined;
+
+        await tx.delete(queueEntries).where(eq(queueEntries.id, id));
+        await this.closePositionGap(tx, entry);
+        return entry;
+      });
+      if (entry) removed.push(entry);
+    }
+    return removed;
+  }
+
+  // Drop analytics
+  async getDropAnalytics(): Promise<DropAnalytics[]> {
+    const countWhere = (condition: SQL) => sql<number>`count(*) filter (where ${condition})`.mapWith(Number);
+    const rows = await db
+      .select({
+        dropId: drops.id,
+        name: drops.name,
+        dropTime: drops.dropTime,
+        status: drops.status,
+        expiredSignups: drops.expiredSignups,
+        entries: count(queueEntries.id),
+        verified: count(queueEntries.emailVerifiedAt),
+        notifications: countWhere(eq(queueEntries.notifications, true)),
+        smsConsent: countWhere(eq(queueEntries.smsConsent, true)),
+        boosted: countWhere(eq(queueEntries.instagramBoostUsed, true)),
+        admitted: count(queueEntries.admittedAt),
+        redeemed: count(queueEntries.accessTokenRedeemedAt),
+        purchased: count(queueEntries.purchasedAt),
+      })
+      .from(drops)
+      .leftJoin(queueEntries, eq(queueEntries.dropId, drops.id))
+      .groupBy(drops.id)
+      .orderBy(desc(drops.dropTime));
+
+    // Counted apart so an entry's several claims don't multiply the counts above
+    const claims = await db
+      .select({ dropId: queueEntries.dropId, entries: countDistinct(socialVerifications.queueEntryId) })
+      .from(socialVerifications)
+      .innerJoin(queueEntries, eq(socialVerifications.queueEntryId, queueEntries.id))
+      .groupBy(queueEntries.dropId);
+    const claimsByDrop = new Map(claims.map(claim => [claim.dropId, claim.entries]));
+
+    return rows.map(row => ({ ...row, boostClaims: claimsByDrop.get(row.dropId) ?? 0 }));
+  }
+
+  async getJoinTimeline(dropId: string, interval: AnalyticsInterval): Promise<JoinTimelinePoint[]> {
+    // Inlined rather than bound so the select and group by are the same expression; interval is one of analyticsIntervals
+    const bucket = sql<Date>`date_trunc(${sql.raw(`'${interval}'`)}, ${queueEntries.joinedAt})`.mapWith(queueEntries.joinedAt);
+    return await db
+      .select({ at: bucket, joins: count() })
+      .from(queueEntries)
+      .where(eq(queueEntries.dropId, dropId))
+      .groupBy(bucket)
+      .orderBy(bucket);
+  }
+
+  // Audit trail
+  async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
+    const [created] = await db
+      .insert(auditLogs)
+      .values(log)
+      .returning();
+    return created;
+  }
+
+  async getAuditLogs(limit: number): Promise<AuditLog[]> {
+    return await db
+      .select()
+      .from(auditLogs)
+      .orderBy(desc(auditLogs.createdAt))
+      .limit(limit);
+  }
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
   private queueEntries: Map<string, QueueEntry>;
   private emailToId: Map<string, string>;
   private mockDrops: Drop[] = [];
   private mockSettings: Settings | undefined;
+  private adminUsers: Map<string, AdminUser>;
+  private auditLogs: AuditLog[] = [];
+  private socialVerifications: Map<string, SocialVerification> = new Map();
+  private bans: Map<string, Ban> = new Map();
 
   constructor() {
+    this.sessionStore = new MemoryStore({ checkPeriod: 86400000 });
     this.queueEntries = new Map();
     this.emailToId = new Map();
+    this.adminUsers = new Map();
     
-    // Pre-populate with mock queue entries to simulate existing queue
-    this.initializeMockQueue();
+    // Pre-populate with a mock drop so the queue page has something to show
     this.initializeMockDrop();
   }
 
+  private emailKey(dropId: string, email: string): string {
+    return `${dropId}:${email}`;
+  }
+
   private initializeMockDrop() {
     // Create a mock drop with a future drop time
     const mockDrop: Drop = {
@@ -189,103 +1119,121 @@ export class MemStorage implements IStorage {
       description: "Limited edition collection - Don't miss out!",
       dropTime: new Date(Date.now() + 30 * 60 * 1000), // 30 minutes from now for testing
       isActive: true,
+      status: "queue_open",
+      queueOpensAt: null,
+      closesAt: null,
       maxQueueSize: 293,
+      waitlistEnabled: false,
+      accessWindowMinutes: 5,
+      emailVerificationMinutes: 30,
+      admissionBatchSize: 10,
+      admissionIntervalSeconds: 60,
+      shopifyProductId: null,
+      shopifyVariantId: null,
+      reminderSentAt: null,
+      lastAdmissionAt: null,
+      expiredSignups: 0,
       createdAt: new Date(),
     };
     this.mockDrops.push(mockDrop);
   }
 
-  private initializeMockQueue() {
-    const mockEmails = [
-      "alex_***@gmail.com",
-      "jordan_***@yahoo.com", 
-      "sam_***@hotmail.com",
-      "casey_***@gmail.com"
-    ];
-
-    mockEmails.forEach((email, index) => {
-      const id = randomUUID();
-      const entry: QueueEntry = {
-        id,
-        email,
-        phone: null,
-        position: index + 1,
-        notifications: false,
-        instagramUsername: null,
-        instagramBoostUsed: false,
-        joinedAt: new Date(Date.now() - (120 - index * 10) * 60000), // Stagger join times
-      };
-      this.queueEntries.set(id, entry);
-      this.emailToId.set(email, id);
-    });
-
-    // Add more mock entries to reach ~283 people (more realistic number)
-    for (let i = 5; i <= 283; i++) {
-      const id = randomUUID();
-      const entry: QueueEntry = {
-        id,
-        email: `user${i}_***@email.com`,
-        phone: null,
-        position: i,
-        notifications: false,
-        instagramUsername: null,
-        instagramBoostUsed: false,
-        joinedAt: new Date(Date.now() - (120 - i) * 60000),
-      };
-      this.queueEntries.set(id, entry);
-      this.emailToId.set(entry.email, id);
-    }
-  }
-
   async getQueueEntry(id: string): Promise<QueueEntry | undefined> {
     return this.queueEntries.get(id);
   }
 
-  async getQueueEntryByEmail(email: string): Promise<QueueEntry | undefined> {
-    const id = this.emailToId.get(email);
+  async getQueueEntryByEmail(dropId: string, email: string): Promise<QueueEntry | undefined> {
+    const id = this.emailToId.get(this.emailKey(dropId, email));
     if (!id) return undefined;
     return this.queueEntries.get(id);
   }
 
-  async createQueueEntry(insertEntry: InsertQueueEntry): Promise<QueueEntry> {
-    // Check if email already exists
-    if (this.emailToId.has(insertEntry.email)) {
+  async getQueueEntryByStatusToken(statusToken: string): Promise<QueueEntry | undefined> {
+    return Array.from(this.queueEntries.values()).find(entry => entry.statusToken === statusToken);
+  }
+
+  // Runs without awaiting anything between the duplicate check and the insert, so parallel joins can't interleave
+  async createQueueEntry(dropId: string, insertEntry: InsertQueueEntry, signup?: SignupMetadata): Promise<QueueEntry> {
+    // Check if email already exists in this drop's queue
+    const key = this.emailKey(dropId, insertEntry.email);
+    if (this.emailToId.has(key)) {
       throw new Error("Email already exists in queue");
     }
 
-    const id = randomUUID();
-    const position = this.queueEntries.size + 1;
-    
-    const entry: QueueEntry = {
-      id,
-      email: insertEntry.email,
-      phone: insertEntry.phone || null,
-      notifications: insertEntry.notifications || false,
-      position,
-      instagramUsername: null,
-      instagramBoostUsed: false,
-      joinedAt: new Date(),
-    };
+    const drop = this.mockDrops.find(drop => drop.id === dropId);
+    const tier = signupTier(drop, this.countQueueSpotsTaken(dropId), this.hasConfirmedWaitlist(dropId));
+
+    const position = this.tierSize(dropId, tier) + 1;
+    const entry = this.buildQueueEntry(dropId, insertEntry, tier, position, signup);
     
-    this.queueEntries.set(id, entry);
-    this.emailToId.set(insertEntry.email, id);
+    this.queueEntries.set(entry.id, entry);
+    this.emailToId.set(key, entry.id);
     
     return entry;
   }
 
-  async getAllQueueEntries(): Promise<QueueEntry[]> {
-    return Array.from(this.queueEntries.values()).sort((a, b) => 
-      a.position - b.position
-    );
+  async countQueueEntriesFromIp(dropId: string, ip: string): Promise<number> {
+    return Array.from(this.queueEntries.values())
+      .filter(entry => entry.dropId === dropId && entry.signupIp === ip).length;
+  }
+
+  async getAllQueueEntries(dropId?: string): Promise<QueueEntry[]> {
+    return Array.from(this.queueEntries.values())
+      .filter(entry => !dropId || entry.dropId === dropId)
+      .sort((a, b) => a.tier.localeCompare(b.tier) || a.position - b.position);
+  }
+
+  async listQueueEntries(query: AdminQueueQuery): Promise<QueueEntryPage> {
+    const search = query.search?.toLowerCase();
+    const sortKey = (entry: QueueEntry): CursorKey => query.sort === "joinedAt"
+      ? [entry.joinedAt.getTime(), entry.id]
+      : [entry.tier, entry.position, entry.id];
+    const compareKeys = (a: CursorKey, b: CursorKey) => {
+      for (let i = 0; i < a.length; i++) {
+        if (a[i] < b[i]) return -1;
+        if (a[i] > b[i]) return 1;
+      }
+      return 0;
+    };
+    const sign = query.order === "desc" ? -1 : 1;
+
+    const matching = Array.from(this.queueEntries.values())
+      .filter(entry => !query.dropId || entry.dropId === query.dropId)
+      .filter(entry => !search || [entry.email, entry.phone, entry.instagramUsername].some(value => value?.toLowerCase().includes(search)))
+      .filter(entry => query.boosted === undefined || !!entry.instagramBoostUsed === query.boosted)
+      .filter(entry => query.notifications === undefined || !!entry.notifications === query.notifications)
+      .sort((a, b) => sign * compareKeys(sortKey(a), sortKey(b)));
+
+    const after = query.cursor ? decodeCursor(query.cursor, query.sort === "joinedAt" ? 2 : 3) : undefined;
+    const remaining = after ? matching.filter(entry => sign * compareKeys(sortKey(entry), after) > 0) : matching;
+    const entries = remaining.slice(0, query.limit);
+
+    return {
+      entries,
+      nextCursor: remaining.length > query.limit ? encodeCursor(sortKey(entries[entries.length - 1])) : null,
+      total: matching.length,
+    };
   }
 
-  async getQueuePosition(email: string): Promise<number | null> {
-    const entry = await this.getQueueEntryByEmail(email);
+  async *iterateQueueEntries(filter: QueueEntryFilter, batchSize = 500): AsyncGenerator<QueueEntry[]> {
+    const matching = Array.from(this.queueEntries.values())
+      .filter(entry => !filter.dropId || entry.dropId === filter.dropId)
+      .filter(entry => !filter.joinedFrom || entry.joinedAt >= filter.joinedFrom)
+      .filter(entry => !filter.joinedTo || entry.joinedAt <= filter.joinedTo)
+      .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime() || a.id.localeCompare(b.id));
+
+    for (let start = 0; start < matching.length; start += batchSize) {
+      yield matching.slice(start, start + batchSize);
+    }
+  }
+
+  async getQueuePosition(dropId: string, email: string): Promise<number | null> {
+    const entry = await this.getQueueEntryByEmail(dropId, email);
     return entry ? entry.position : null;
   }
 
-  async getTotalQueueSize(): Promise<number> {
-    return this.queueEntries.size;
+  async getTotalQueueSize(dropId: string, tier: QueueTier = "queue"): Promise<number> {
+    return this.tierSize(dropId, tier);
   }
 
   async deleteQueueEntry(id: string): Promise<boolean> {
@@ -293,27 +1241,280 @@ export class MemStorage implements IStorage {
     if (!entry) return false;
     
     this.queueEntries.delete(id);
-    this.emailToId.delete(entry.email);
+    this.emailToId.delete(this.emailKey(entry.dropId, entry.email));
+
+    // Mirror the ON DELETE CASCADE on social_verifications.queue_entry_id
+    for (const verification of Array.from(this.socialVerifications.values())) {
+      if (verification.queueEntryId === id) {
+        this.socialVerifications.delete(verification.id);
+      }
+    }
+
+    this.closePositionGap(entry);
     return true;
   }
 
-  async updateQueueEntryInstagram(email: string, instagramUsername: string): Promise<QueueEntry | undefined> {
-    const id = this.emailToId.get(email);
+  async moveQueueEntry(id: string, targetPosition: number): Promise<QueueEntry | undefined> {
+    const entry = this.queueEntries.get(id);
+    if (!entry) return undefined;
+
+    return this.repositionEntry(entry, targetPosition);
+  }
+
+  async revertInstagramBoost(id: string, boostSize: number): Promise<QueueEntry | undefined> {
+    const entry = this.queueEntries.get(id);
+    if (!entry?.instagramBoostUsed) return undefined;
+
+    const cleared: QueueEntry = { ...entry, instagramUsername: null, instagramBoostUsed: false };
+    this.queueEntries.set(id, cleared);
+    return this.repositionEntry(cleared, entry.position + boostSize);
+  }
+
+  async updateQueueEntryInstagram(dropId: string, email: string, instagramUsername: string, boostSize: number): Promise<QueueEntry | undefined> {
+    const id = this.emailToId.get(this.emailKey(dropId, email));
     if (!id) return undefined;
     
     const entry = this.queueEntries.get(id);
     if (!entry) return undefined;
     
-    const newPosition = Math.max(1, entry.position - 100);
     const updatedEntry: QueueEntry = {
       ...entry,
       instagramUsername,
       instagramBoostUsed: true,
-      position: newPosition
     };
-    
     this.queueEntries.set(id, updatedEntry);
-    return updatedEntry;
+
+    return this.repositionEntry(updatedEntry, entry.position - boostSize);
+  }
+
+  async promoteFromWaitlist(dropId: string): Promise<QueueEntry[]> {
+    const drop = this.mockDrops.find(drop => drop.id === dropId);
+    if (!drop) return [];
+
+    const freeSpots = drop.maxQueueSize ? drop.maxQueueSize - this.countQueueSpotsTaken(dropId) : Infinity;
+    const waitlist = (await this.getAllQueueEntries(dropId)).filter(entry => entry.tier === "waitlist" && entry.emailVerifiedAt);
+    const promoted: QueueEntry[] = [];
+
+    for (const head of waitlist.slice(0, Math.max(0, freeSpots))) {
+      const current = this.queueEntries.get(head.id)!;
+      const entry: QueueEntry = { ...current, tier: "queue", position: (await this.getTotalQueueSize(dropId)) + 1 };
+      this.queueEntries.set(entry.id, entry);
+      this.closePositionGap(current);
+      promoted.push(entry);
+    }
+    return promoted;
+  }
+
+  async getExistingQueueEmails(dropId: string, emails: string[]): Promise<string[]> {
+    const wanted = new Set(emails.map(email => email.toLowerCase()));
+    return (await this.getAllQueueEntries(dropId))
+      .map(entry => entry.email.toLowerCase())
+      .filter(email => wanted.has(email));
+  }
+
+  async importQueueEntries(dropId: string, entries: InsertQueueEntry[], startPosition?: number): Promise<QueueImportResult> {
+    const existing = await this.getExistingQueueEmails(dropId, entries.map(entry => entry.email));
+    const skipped = new Set(existing);
+    const fresh = entries.filter(entry => !skipped.has(entry.email.toLowerCase()));
+    if (fresh.length === 0) return { created: [], skipped: existing };
+
+    const last = await this.getTotalQueueSize(dropId);
+    const start = Math.min(Math.max(startPosition ?? last + 1, 1), last + 1);
+
+    for (const other of Array.from(this.queueEntries.values())) {
+      if (other.dropId === dropId && other.tier === "queue" && other.position >= start) {
+        this.queueEntries.set(other.id, { ...other, position: other.position + fresh.length });
+      }
+    }
+
+    const now = new Date();
+    const created = fresh.map((insertEntry, index) => {
+      const entry = { ...this.buildQueueEntry(dropId, insertEntry, "queue", start + index), emailVerifiedAt: now };
+      this.queueEntries.set(entry.id, entry);
+      this.emailToId.set(this.emailKey(dropId, entry.email), entry.id);
+      return entry;
+    });
+    return { created, skipped: existing };
+  }
+
+  async verifyQueueEntryEmail(id: string): Promise<QueueEntry | undefined> {
+    const entry = this.queueEntries.get(id);
+    if (!entry || entry.emailVerifiedAt) return undefined;
+
+    const verified: QueueEntry = { ...entry, emailVerifiedAt: new Date() };
+    this.queueEntries.set(id, verified);
+    return verified;
+  }
+
+  async expireUnverifiedEntries(now = new Date()): Promise<number> {
+    let removed = 0;
+    for (const entry of Array.from(this.queueEntries.values())) {
+      if (entry.emailVerifiedAt) continue;
+
+      const drop = this.mockDrops.find(drop => drop.id === entry.dropId);
+      if (!drop || entry.joinedAt.getTime() + drop.emailVerificationMinutes * 60 * 1000 > now.getTime()) continue;
+
+      if (await this.deleteQueueEntry(entry.id)) {
+        drop.expiredSignups++;
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async admitNextEntries(dropId: string, batchSize: number, windowMinutes: number): Promise<QueueEntry[]> {
+    const admittedAt = new Date();
+    const next = (await this.getAllQueueEntries(dropId))
+      .filter(entry => entry.tier === "queue" && !entry.admittedAt && entry.emailVerifiedAt)
+      .slice(0, batchSize);
+
+    for (const entry of next) {
+      entry.admittedAt = admittedAt;
+      entry.accessTokenId = randomUUID();
+      entry.accessTokenIssuedAt = admittedAt;
+      entry.accessTokenExpiresAt = new Date(admittedAt.getTime() + windowMinutes * 60 * 1000);
+    }
+    return next;
+  }
+
+  async countWaitingAhead(dropId: string, tier: QueueTier, position: number): Promise<number> {
+    return (await this.getAllQueueEntries(dropId))
+      .filter(entry => !entry.admittedAt && entry.emailVerifiedAt)
+      .filter(entry => tier === "queue"
+        ? entry.tier === "queue" && entry.position < position
+        : entry.tier === "queue" || entry.position < position)
+      .length;
+  }
+
+  async getAdmissionStats(dropId: string): Promise<AdmissionStats> {
+    const times = (await this.getAllQueueEntries(dropId))
+      .filter(entry => entry.admittedAt)
+      .map(entry => entry.admittedAt!.getTime());
+    return {
+      admitted: times.length,
+      firstAdmittedAt: times.length ? new Date(Math.min(...times)) : null,
+      lastAdmittedAt: times.length ? new Date(Math.max(...times)) : null,
+    };
+  }
+
+  async redeemAccessToken(entryId: string, tokenId: string): Promise<QueueEntry | undefined> {
+    const entry = this.queueEntries.get(entryId);
+    if (!entry || entry.accessTokenId !== tokenId) return undefined;
+    if (entry.accessTokenRedeemedAt || entry.accessReleasedAt) return undefined;
+    if (!entry.accessTokenExpiresAt || entry.accessTokenExpiresAt <= new Date()) return undefined;
+
+    entry.accessTokenRedeemedAt = new Date();
+    return entry;
+  }
+
+  async releaseExpiredAccessTokens(): Promise<number> {
+    const now = new Date();
+    let released = 0;
+    for (const entry of Array.from(this.queueEntries.values())) {
+      if (!entry.accessTokenExpiresAt || entry.accessTokenExpiresAt > now) continue;
+      if (entry.accessTokenRedeemedAt || entry.accessReleasedAt) continue;
+
+      entry.accessReleasedAt = now;
+      released++;
+    }
+    return released;
+  }
+
+  async setShopifyCheckout(entryId: string, draftOrderId: string, checkoutUrl: string): Promise<QueueEntry | undefined> {
+    const entry = this.queueEntries.get(entryId);
+    if (!entry) return undefined;
+
+    entry.shopifyDraftOrderId = draftOrderId;
+    entry.shopifyCheckoutUrl = checkoutUrl;
+    return entry;
+  }
+
+  async markEntryPurchased(entryId: string, orderId: string): Promise<QueueEntry | undefined> {
+    const entry = this.queueEntries.get(entryId);
+    if (!entry || entry.purchasedAt) return undefined;
+
+    entry.shopifyOrderId = orderId;
+    entry.purchasedAt = new Date();
+    return entry;
+  }
+
+  private buildQueueEntry(dropId: string, insertEntry: InsertQueueEntry, tier: QueueTier, position: number, signup?: SignupMetadata): QueueEntry {
+    return {
+      id: randomUUID(),
+      dropId,
+      email: insertEntry.email,
+      phone: insertEntry.phone || null,
+      statusToken: randomBytes(32).toString("hex"),
+      notifications: insertEntry.notifications || false,
+      ...smsConsentFields(insertEntry),
+      smsOptedOutAt: null,
+      admittedAt: null,
+      emailVerifiedAt: null,
+      accessTokenId: null,
+      accessTokenIssuedAt: null,
+      accessTokenExpiresAt: null,
+      accessTokenRedeemedAt: null,
+      accessReleasedAt: null,
+      shopifyDraftOrderId: null,
+      shopifyCheckoutUrl: null,
+      shopifyOrderId: null,
+      purchasedAt: null,
+      tier,
+      position,
+      instagramUsername: null,
+      instagramBoostUsed: false,
+      signupIp: signup?.signupIp ?? null,
+      userAgent: signup?.userAgent ?? null,
+      abuseSignals: signup?.abuseSignals ?? [],
+      joinedAt: new Date(),
+    };
+  }
+
+  private hasConfirmedWaitlist(dropId: string): boolean {
+    return Array.from(this.queueEntries.values())
+      .some(entry => entry.dropId === dropId && entry.tier === "waitlist" && entry.emailVerifiedAt);
+  }
+
+  private tierSize(dropId: string, tier: QueueTier): number {
+    return Array.from(this.queueEntries.values())
+      .filter(entry => entry.dropId === dropId && entry.tier === tier)
+      .length;
+  }
+
+  private countQueueSpotsTaken(dropId: string): number {
+    return Array.from(this.queueEntries.values())
+      .filter(entry => entry.dropId === dropId && entry.tier === "queue" && !entry.accessReleasedAt)
+      .length;
+  }
+
+  private closePositionGap(removed: QueueEntry) {
+    for (const other of Array.from(this.queueEntries.values())) {
+      if (other.dropId === removed.dropId && other.tier === removed.tier && other.position > removed.position) {
+        this.queueEntries.set(other.id, { ...other, position: other.position - 1 });
+      }
+    }
+  }
+
+  // Move an entry to the target rank within its tier, shifting everyone in between by one
+  private repositionEntry(entry: QueueEntry, targetPosition: number): QueueEntry {
+    const positions = Array.from(this.queueEntries.values())
+      .filter(other => other.dropId === entry.dropId && other.tier === entry.tier)
+      .map(other => other.position);
+    const target = Math.min(Math.max(targetPosition, Math.min(...positions)), Math.max(...positions));
+
+    for (const other of Array.from(this.queueEntries.values())) {
+      if (other.dropId !== entry.dropId || other.tier !== entry.tier || other.id === entry.id) continue;
+
+      if (target < entry.position && other.position >= target && other.position < entry.position) {
+        this.queueEntries.set(other.id, { ...other, position: other.position + 1 });
+      } else if (target > entry.position && other.position > entry.position && other.position <= target) {
+        this.queueEntries.set(other.id, { ...other, position: other.position - 1 });
+      }
+    }
+
+    const moved: QueueEntry = { ...entry, position: target };
+    this.queueEntries.set(entry.id, moved);
+    return moved;
   }
 
   // Drop management
@@ -324,7 +1525,20 @@ export class MemStorage implements IStorage {
       description: drop.description || null,
       dropTime: drop.dropTime,
       isActive: true,
+      status: initialDropStatus(drop),
+      queueOpensAt: drop.queueOpensAt ?? null,
+      closesAt: drop.closesAt ?? null,
       maxQueueSize: drop.maxQueueSize,
+      waitlistEnabled: drop.waitlistEnabled,
+      accessWindowMinutes: drop.accessWindowMinutes,
+      emailVerificationMinutes: drop.emailVerificationMinutes,
+      admissionBatchSize: drop.admissionBatchSize,
+      admissionIntervalSeconds: drop.admissionIntervalSeconds,
+      shopifyProductId: drop.shopifyProductId,
+      shopifyVariantId: drop.shopifyVariantId,
+      reminderSentAt: null,
+      lastAdmissionAt: null,
+      expiredSignups: 0,
       createdAt: new Date(),
     };
     this.mockDrops.push(newDrop);
@@ -335,26 +1549,88 @@ export class MemStorage implements IStorage {
     return this.mockDrops.find(drop => drop.isActive);
   }
 
+  async getDrop(id: string): Promise<Drop | undefined> {
+    return this.mockDrops.find(drop => drop.id === id);
+  }
+
   async getAllDrops(): Promise<Drop[]> {
     return [...this.mockDrops].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
-  async updateDrop(id: string, updates: Partial<InsertDrop>): Promise<Drop | undefined> {
+  async updateDrop(id: string, updates: UpdateDrop): Promise<Drop | undefined> {
     const index = this.mockDrops.findIndex(drop => drop.id === id);
     if (index === -1) return undefined;
     
-    this.mockDrops[index] = { ...this.mockDrops[index], ...updates };
+    const existing = this.mockDrops[index];
+    if (updates.status && !canTransitionDrop(existing.status, updates.status)) {
+      throw new Error("Invalid drop status transition");
+    }
+
+    this.mockDrops[index] = { ...existing, ...updates };
+    // Moving the drop time re-arms the pre-drop reminder
+    if (updates.dropTime && updates.dropTime.getTime() !== existing.dropTime.getTime()) {
+      this.mockDrops[index].reminderSentAt = null;
+    }
     return this.mockDrops[index];
   }
 
+  async transitionDropStatus(id: string, from: DropStatus, to: DropStatus): Promise<Drop | undefined> {
+    if (!canTransitionDrop(from, to)) {
+      throw new Error("Invalid drop status transition");
+    }
+
+    const drop = this.mockDrops.find(drop => drop.id === id);
+    if (!drop || drop.status !== from) return undefined;
+
+    drop.status = to;
+    return drop;
+  }
+
   async deleteDrop(id: string): Promise<boolean> {
     const index = this.mockDrops.findIndex(drop => drop.id === id);
     if (index === -1) return false;
     
     this.mockDrops.splice(index, 1);
+
+    // Mirror the ON DELETE CASCADE on queue_entries.drop_id
+    for (const entry of Array.from(this.queueEntries.values())) {
+      if (entry.dropId === id) {
+        await this.deleteQueueEntry(entry.id);
+      }
+    }
     return true;
   }
 
+  async markDropNotified(id: string, notification: DropNotification): Promise<boolean> {
+    const drop = this.mockDrops.find(drop => drop.id === id);
+    if (!drop || drop[notification]) return false;
+
+    drop[notification] = new Date();
+    return true;
+  }
+
+  async claimAdmissionWave(id: string, intervalSeconds: number): Promise<boolean> {
+    const drop = this.mockDrops.find(drop => drop.id === id);
+    if (!drop) return false;
+
+    const now = new Date();
+    if (drop.lastAdmissionAt && now.getTime() - drop.lastAdmissionAt.getTime() < intervalSeconds * 1000) return false;
+
+    drop.lastAdmissionAt = now;
+    return true;
+  }
+
+  async setSmsOptOut(phone: string, optedOut: boolean): Promise<number> {
+    let changed = 0;
+    for (const entry of Array.from(this.queueEntries.values())) {
+      if (entry.phone !== phone) continue;
+
+      entry.smsOptedOutAt = optedOut ? new Date() : null;
+      changed++;
+    }
+    return changed;
+  }
+
   async getSettings(): Promise<Settings | undefined> {
     return this.mockSettings;
   }
@@ -364,11 +1640,208 @@ export class MemStorage implements IStorage {
       id: this.mockSettings?.id || randomUUID(),
       instagramPostUrl: newSettings.instagramPostUrl || null,
       instagramBoostEnabled: newSettings.instagramBoostEnabled || false,
+      instagramBoostSize: newSettings.instagramBoostSize,
+      honestMode: newSettings.honestMode,
+      boostManualReview: newSettings.boostManualReview,
       createdAt: this.mockSettings?.createdAt || new Date(),
       updatedAt: new Date(),
     };
     return this.mockSettings;
   }
+
+  // Social boost verifications
+  async createSocialVerification(verification: InsertSocialVerification): Promise<SocialVerification> {
+    const created: SocialVerification = {
+      id: randomUUID(),
+      queueEntryId: verification.queueEntryId,
+      platform: verification.platform ?? "instagram",
+      username: verification.username,
+      status: "pending",
+      detail: null,
+      createdAt: new Date(),
+      decidedAt: null,
+    };
+    this.socialVerifications.set(created.id, created);
+    return created;
+  }
+
+  async updateSocialVerificationStatus(id: string, status: VerificationStatus, detail?: string): Promise<SocialVerification | undefined> {
+    const verification = this.socialVerifications.get(id);
+    if (!verification) return undefined;
+
+    const updated: SocialVerification = {
+      ...verification,
+      status,
+      detail: detail ?? verification.detail,
+      decidedAt: status === "pending" ? null : new Date(),
+    };
+    this.socialVerifications.set(id, updated);
+    return updated;
+  }
+
+  async getLatestSocialVerification(queueEntryId: string): Promise<SocialVerification | undefined> {
+    return Array.from(this.socialVerifications.values())
+      .filter(verification => verification.queueEntryId === queueEntryId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+  }
+
+  async getSocialVerification(id: string): Promise<SocialVerification | undefined> {
+    return this.socialVerifications.get(id);
+  }
+
+  async getBoostClaims(status?: VerificationStatus): Promise<BoostClaim[]> {
+    const claims: BoostClaim[] = [];
+    for (const verification of Array.from(this.socialVerifications.values())) {
+      if (status && verification.status !== status) continue;
+
+      const entry = this.queueEntries.get(verification.queueEntryId);
+      if (!entry) continue;
+
+      claims.push({ ...verification, email: entry.email, dropId: entry.dropId, position: entry.position });
+    }
+    return claims.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  // Admin users
+  async getAdminUser(id: string): Promise<AdminUser | undefined> {
+    return this.adminUsers.get(id);
+  }
+
+  async getAdminUserByUsername(username: string): Promise<AdminUser | undefined> {
+    return Array.from(this.adminUsers.values()).find(user => user.username === username);
+  }
+
+  async createAdminUser(user: InsertAdminUser): Promise<AdminUser> {
+    const created: AdminUser = {
+      id: randomUUID(),
+      username: user.username,
+      password: user.password,
+      role: user.role,
+      createdAt: new Date(),
+    };
+    this.adminUsers.set(created.id, created);
+    return created;
+  }
+
+  async countAdminUsers(): Promise<number> {
+    return this.adminUsers.size;
+  }
+
+  async getAllAdminUsers(): Promise<AdminUser[]> {
+    return Array.from(this.adminUsers.values()).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async updateAdminUserRole(id: string, role: AdminRole): Promise<AdminUser | undefined> {
+    const user = this.adminUsers.get(id);
+    if (!user) return undefined;
+
+    const updated: AdminUser = { ...user, role };
+    this.adminUsers.set(id, updated);
+    return updated;
+  }
+
+  async deleteAdminUser(id: string): Promise<boolean> {
+    return this.adminUsers.delete(id);
+  }
+
+  async createBan(ban: InsertBan, createdBy: string): Promise<Ban> {
+    if (Array.from(this.bans.values()).some(other => other.kind === ban.kind && other.value === ban.value)) {
+      throw new Error("Already banned");
+    }
+
+    const created: Ban = { id: randomUUID(), ...ban, reason: ban.reason ?? null, createdBy, createdAt: new Date() };
+    this.bans.set(created.id, created);
+    return created;
+  }
+
+  async getBans(): Promise<Ban[]> {
+    return Array.from(this.bans.values()).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async deleteBan(id: string): Promise<Ban | undefined> {
+    const ban = this.bans.get(id);
+    this.bans.delete(id);
+    return ban;
+  }
+
+  async findBanForEmail(email: string): Promise<Ban | undefined> {
+    return Array.from(this.bans.values()).find(ban => banCovers(ban, email));
+  }
+
+  async removeBannedEntries(ban: Ban): Promise<QueueEntry[]> {
+    const covered = Array.from(this.queueEntries.values()).filter(entry => banCovers(ban, entry.email));
+    const removed: QueueEntry[] = [];
+    for (const { id } of covered) {
+      // Re-read: earlier removals shift positions
+      const entry = this.queueEntries.get(id)!;
+      await this.deleteQueueEntry(id);
+      removed.push(entry);
+    }
+    return removed;
+  }
+
+  // Drop analytics
+  async getDropAnalytics(): Promise<DropAnalytics[]> {
+    const entries = Array.from(this.queueEntries.values());
+    const claimed = new Set(Array.from(this.socialVerifications.values()).map(verification => verification.queueEntryId));
+
+    return [...this.mockDrops]
+      .sort((a, b) => b.dropTime.getTime() - a.dropTime.getTime())
+      .map(drop => {
+        const inDrop = entries.filter(entry => entry.dropId === drop.id);
+        const countWhere = (test: (entry: QueueEntry) => unknown) => inDrop.filter(test).length;
+        return {
+          dropId: drop.id,
+          name: drop.name,
+          dropTime: drop.dropTime,
+          status: drop.status,
+          expiredSignups: drop.expiredSignups,
+          entries: inDrop.length,
+          verified: countWhere(entry => entry.emailVerifiedAt),
+          notifications: countWhere(entry => entry.notifications),
+          smsConsent: countWhere(entry => entry.smsConsent),
+          boostClaims: countWhere(entry => claimed.has(entry.id)),
+          boosted: countWhere(entry => entry.instagramBoostUsed),
+          admitted: countWhere(entry => entry.admittedAt),
+          redeemed: countWhere(entry => entry.accessTokenRedeemedAt),
+          purchased: countWhere(entry => entry.purchasedAt),
+        };
+      });
+  }
+
+  async getJoinTimeline(dropId: string, interval: AnalyticsInterval): Promise<JoinTimelinePoint[]> {
+    const size = interval === "minute" ? 60 * 1000 : 60 * 60 * 1000;
+    const buckets = new Map<number, number>();
+    for (const entry of await this.getAllQueueEntries(dropId)) {
+      const at = Math.floor(entry.joinedAt.getTime() / size) * size;
+      buckets.set(at, (buckets.get(at) ?? 0) + 1);
+    }
+    return Array.from(buckets.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([at, joins]) => ({ at: new Date(at), joins }));
+  }
+
+  // Audit trail
+  async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
+    const created: AuditLog = {
+      id: randomUUID(),
+      actorId: log.actorId ?? null,
+      actorUsername: log.actorUsername,
+      action: log.action,
+      entityType: log.entityType,
+      entityId: log.entityId ?? null,
+      before: log.before ?? null,
+      after: log.after ?? null,
+      createdAt: new Date(),
+    };
+    this.auditLogs.push(created);
+    return created;
+  }
+
+  async getAuditLogs(limit: number): Promise<AuditLog[]> {
+    return [...this.auditLogs].reverse().slice(0, limit);
+  }
 }
 
-export const storage = new DatabaseStorage();
+// STORAGE=memory keeps everything in this process, e.g. for route tests without a database
+export const storage: IStorage = process.env.STORAGE === "memory" ? new MemStorage() : new DatabaseStorage();
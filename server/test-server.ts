@@ -0,0 +1,23 @@
+import express from "express";
+import { type AddressInfo } from "net";
+import { registerRoutes } from "./routes";
+
+// The API on a random local port, parsed the way server/index.ts does it, for route tests
+export async function startTestServer() {
+  const app = express();
+  app.use(express.json({
+    verify: (req, _res, buf) => {
+      req.rawBody = buf;
+    },
+  }));
+  app.use(express.urlencoded({ extended: false }));
+
+  const server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
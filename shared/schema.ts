@@ -1,18 +1,16 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, integer, unique, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
-export const queueEntries = pgTable("queue_entries", {
-  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  email: text("email").notNull().unique(),
-  phone: text("phone"),
-  position: integer("position").notNull(),
-  notifications: boolean("notifications").default(false),
-  instagramUsername: text("instagram_username"),
-  instagramBoostUsed: boolean("instagram_boost_used").default(false),
-  joinedAt: timestamp("joined_at").defaultNow().notNull(),
-});
+// Drop lifecycle, in order; dropStatusTransitions lists the allowed moves
+export const dropStatuses = ["scheduled", "queue_open", "live", "sold_out", "closed"] as const;
+
+// Entries past the drop's max queue size go to the waitlist, which has its own position sequence
+export const queueTiers = ["queue", "waitlist"] as const;
+
+// Heuristics recorded on an entry at sign-up for moderators to review; none of them block the join
+export const abuseSignals = ["shared_ip", "plus_address", "missing_user_agent"] as const;
 
 export const drops = pgTable("drops", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -20,51 +18,465 @@ export const drops = pgTable("drops", {
   description: text("description"),
   dropTime: timestamp("drop_time").notNull(),
   isActive: boolean("is_active").default(true),
+  status: text("status", { enum: dropStatuses }).notNull().default("scheduled"),
+  // The queue opens at queueOpensAt (right away when unset), goes live at dropTime and closes at closesAt (never when unset)
+  queueOpensAt: timestamp("queue_opens_at"),
+  closesAt: timestamp("closes_at"),
   maxQueueSize: integer("max_queue_size").default(300),
+  // When the queue is full, further sign-ups join the waitlist instead of being turned away
+  waitlistEnabled: boolean("waitlist_enabled").notNull().default(false),
+  // How long each reserved slot stays open once its access token is issued
+  accessWindowMinutes: integer("access_window_minutes").notNull().default(5),
+  // Sign-ups whose email isn't confirmed within this time are removed from the queue
+  emailVerificationMinutes: integer("email_verification_minutes").notNull().default(30),
+  // Set once the pre-drop SMS reminders have gone out for this drop time
+  reminderSentAt: timestamp("reminder_sent_at"),
+  // Admission waves: once live, the next batch of entries is let in every interval
+  admissionBatchSize: integer("admission_batch_size").notNull().default(10),
+  admissionIntervalSeconds: integer("admission_interval_seconds").notNull().default(60),
+  lastAdmissionAt: timestamp("last_admission_at"),
+  // Sign-ups removed for not confirming their email in time; kept because the entries themselves are deleted
+  expiredSignups: integer("expired_signups").notNull().default(0),
+  // Shopify product sold in this drop; admitted entries get a draft order for the variant
+  shopifyProductId: text("shopify_product_id"),
+  shopifyVariantId: text("shopify_variant_id"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const queueEntries = pgTable("queue_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  dropId: varchar("drop_id").notNull().references(() => drops.id, { onDelete: "cascade" }),
+  email: text("email").notNull(),
+  phone: text("phone"),
+  // Opaque key for the public status page (/status/:token); two random UUIDs, so it can't be guessed
+  statusToken: varchar("status_token").notNull().unique().default(sql`replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '')`),
+  // Positions are numbered 1..n separately within each tier
+  tier: text("tier", { enum: queueTiers }).notNull().default("queue"),
+  position: integer("position").notNull(),
+  notifications: boolean("notifications").default(false),
+  // Explicit opt-in to text messages, and the last STOP reply from this number
+  smsConsent: boolean("sms_consent").notNull().default(false),
+  smsConsentAt: timestamp("sms_consent_at"),
+  smsOptedOutAt: timestamp("sms_opted_out_at"),
+  // Set when the entry's admission wave let it in
+  admittedAt: timestamp("admitted_at"),
+  // Set when the confirmation link was opened; unconfirmed entries are never admitted or promoted
+  emailVerifiedAt: timestamp("email_verified_at"),
+  // Reserved-access token: the id is signed into the token, so re-issuing invalidates older tokens
+  accessTokenId: varchar("access_token_id"),
+  accessTokenIssuedAt: timestamp("access_token_issued_at"),
+  accessTokenExpiresAt: timestamp("access_token_expires_at"),
+  accessTokenRedeemedAt: timestamp("access_token_redeemed_at"),
+  // Set when the window passed without a redemption and the slot went back to the pool
+  accessReleasedAt: timestamp("access_released_at"),
+  // Draft order reserved for this entry on admission, and the order that completed it
+  shopifyDraftOrderId: text("shopify_draft_order_id"),
+  shopifyCheckoutUrl: text("shopify_checkout_url"),
+  shopifyOrderId: text("shopify_order_id"),
+  purchasedAt: timestamp("purchased_at"),
+  instagramUsername: text("instagram_username"),
+  instagramBoostUsed: boolean("instagram_boost_used").default(false),
+  // Where the sign-up came from, and which abuse heuristics fired for it
+  signupIp: text("signup_ip"),
+  userAgent: text("user_agent"),
+  abuseSignals: text("abuse_signals", { enum: abuseSignals }).array().notNull().default(sql`'{}'::text[]`),
+  joinedAt: timestamp("joined_at").defaultNow().notNull(),
+}, (table) => [
+  unique("queue_entries_drop_email_unique").on(table.dropId, table.email),
+]);
+
 export const settings = pgTable("settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   instagramPostUrl: text("instagram_post_url"),
   instagramBoostEnabled: boolean("instagram_boost_enabled").default(false),
+  instagramBoostSize: integer("instagram_boost_size").notNull().default(100),
+  // When on, the public page shows only real queue data (no mock base or simulated growth)
+  honestMode: boolean("honest_mode").notNull().default(true),
+  // When on, every boost claim waits for a moderator even if the automated check passes
+  boostManualReview: boolean("boost_manual_review").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+export const verificationStatuses = ["pending", "approved", "rejected"] as const;
+
+// One row per social boost claim; the boost is applied only once a claim is approved
+export const socialVerifications = pgTable("social_verifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  queueEntryId: varchar("queue_entry_id").notNull().references(() => queueEntries.id, { onDelete: "cascade" }),
+  platform: text("platform").notNull().default("instagram"),
+  username: text("username").notNull(),
+  status: text("status", { enum: verificationStatuses }).notNull().default("pending"),
+  detail: text("detail"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  decidedAt: timestamp("decided_at"),
+});
+
+// A ban turns away sign-ups from one address, or from every address at a domain (subdomains included)
+export const banKinds = ["email", "domain"] as const;
+
+export const bans = pgTable("bans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  kind: text("kind", { enum: banKinds }).notNull(),
+  // Lowercased email address or domain
+  value: text("value").notNull(),
+  reason: text("reason"),
+  createdBy: text("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("bans_kind_value_unique").on(table.kind, table.value),
+]);
+
+// Ordered from least to most privileged
+export const adminRoles = ["viewer", "operator", "owner"] as const;
+
+export const adminUsers = pgTable("admin_users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  role: text("role", { enum: adminRoles }).notNull().default("viewer"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const auditLogs = pgTable("audit_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actorId: varchar("actor_id").references(() => adminUsers.id, { onDelete: "set null" }),
+  actorUsername: text("actor_username").notNull(),
+  action: text("action").notNull(),
+  entityType: text("entity_type").notNull(),
+  entityId: varchar("entity_id"),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// International format, e.g. +15551234567
+export const e164PhoneRegex = /^\+[1-9]\d{1,14}$/;
+
 export const insertQueueEntrySchema = createInsertSchema(queueEntries).pick({
   email: true,
   phone: true,
   notifications: true,
+  smsConsent: true,
 }).extend({
-  email: z.string().email("Please enter a valid email address"),
-  phone: z.string().optional(),
+  // Stored trimmed and lowercased, so joins, imports and bans all compare the same form
+  email: z.string().trim().toLowerCase().email("Please enter a valid email address"),
+  // Spaces, dashes, dots and parentheses are stripped before validating; an empty field means no phone
+  phone: z.preprocess(
+    (value) => typeof value === "string" ? value.replace(/[\s().-]/g, "") || undefined : value,
+    z.string().regex(e164PhoneRegex, "Please enter your number with country code, e.g. +15551234567").optional(),
+  ),
   notifications: z.boolean().default(false),
+  smsConsent: z.boolean().default(false),
+});
+
+export const joinQueueSchema = insertQueueEntrySchema.extend({
+  dropId: z.string().min(1, "Drop is required"),
+  // Response from the bot challenge widget, when one is configured
+  challengeToken: z.string().optional(),
 });
 
-export const insertDropSchema = createInsertSchema(drops).pick({
+// Editable drop fields and their bounds, before the checks that relate one field to another
+const dropFieldsSchema = createInsertSchema(drops).pick({
   name: true,
   description: true,
   dropTime: true,
   maxQueueSize: true,
+  waitlistEnabled: true,
+  accessWindowMinutes: true,
+  emailVerificationMinutes: true,
+  admissionBatchSize: true,
+  admissionIntervalSeconds: true,
+  shopifyProductId: true,
+  shopifyVariantId: true,
+  queueOpensAt: true,
+  closesAt: true,
 }).extend({
   name: z.string().min(1, "Drop name is required"),
   description: z.string().optional(),
   dropTime: z.date(),
+  queueOpensAt: z.date().nullable().optional(),
+  closesAt: z.date().nullable().optional(),
   maxQueueSize: z.number().min(1).default(300),
+  waitlistEnabled: z.boolean().default(false),
+  accessWindowMinutes: z.number().int().min(1, "The window must be at least 1 minute").default(5),
+  emailVerificationMinutes: z.number().int().min(1, "Allow at least 1 minute to confirm").default(30),
+  admissionBatchSize: z.number().int().min(1, "Admit at least 1 person per wave").default(10),
+  admissionIntervalSeconds: z.number().int().min(5, "Waves must be at least 5 seconds apart").default(60),
+  // Blank fields unlink the drop from Shopify
+  shopifyProductId: z.string().regex(/^\d*$/, "Use the numeric Shopify product ID").nullish().transform((value) => value || null),
+  shopifyVariantId: z.string().regex(/^\d*$/, "Use the numeric Shopify variant ID").nullish().transform((value) => value || null),
 });
 
+// The queue opens before the drop goes live, and the drop closes after that
+function checkDropSchedule(drop: { dropTime: Date; queueOpensAt?: Date | null; closesAt?: Date | null }, ctx: z.RefinementCtx) {
+  if (drop.queueOpensAt && drop.queueOpensAt > drop.dropTime) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "The queue must open before the drop", path: ["queueOpensAt"] });
+  }
+  if (drop.closesAt && drop.closesAt <= drop.dropTime) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "The drop must close after it goes live", path: ["closesAt"] });
+  }
+}
+
+export const insertDropSchema = dropFieldsSchema.superRefine(checkDropSchedule);
+
+// Body of PUT /api/admin/drops/:id: any editable field, or a status change. Unknown keys, such as the
+// scheduler's own columns, are dropped. The schedule is checked with dropScheduleSchema on the merged drop.
+export const updateDropSchema = dropFieldsSchema.partial().extend({
+  status: z.enum(dropStatuses).optional(),
+});
+
+export const dropScheduleSchema = z.object({
+  dropTime: z.date(),
+  queueOpensAt: z.date().nullable().optional(),
+  closesAt: z.date().nullable().optional(),
+}).superRefine(checkDropSchedule);
+
 export const insertSettingsSchema = createInsertSchema(settings).pick({
   instagramPostUrl: true,
   instagramBoostEnabled: true,
+  instagramBoostSize: true,
+  honestMode: true,
+  boostManualReview: true,
 }).extend({
-  instagramPostUrl: z.string().url().optional(),
+  instagramPostUrl: z.string().url().nullable().optional(),
   instagramBoostEnabled: z.boolean().default(false),
+  instagramBoostSize: z.number().int().min(1, "Boost must move at least 1 spot").default(100),
+  honestMode: z.boolean().default(true),
+  boostManualReview: z.boolean().default(true),
+});
+
+export const insertAdminUserSchema = createInsertSchema(adminUsers).pick({
+  username: true,
+  password: true,
+  role: true,
+}).extend({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  role: z.enum(adminRoles).default("viewer"),
+});
+
+export const insertSocialVerificationSchema = createInsertSchema(socialVerifications).pick({
+  queueEntryId: true,
+  platform: true,
+  username: true,
+});
+
+export const insertBanSchema = createInsertSchema(bans).pick({
+  kind: true,
+  value: true,
+  reason: true,
+}).extend({
+  kind: z.enum(banKinds),
+  value: z.string().trim().toLowerCase().min(1, "Enter an email address or domain"),
+  reason: z.string().trim().optional().transform((value) => value || null),
+}).refine((ban) => ban.kind !== "email" || z.string().email().safeParse(ban.value).success, {
+  message: "Please enter a valid email address",
+  path: ["value"],
+}).refine((ban) => ban.kind !== "domain" || /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(ban.value), {
+  message: "Please enter a domain such as example.com",
+  path: ["value"],
+});
+
+// Body of POST /api/admin/queue/:id/move
+export const moveQueueEntrySchema = z.object({
+  position: z.number().int().min(1, "Positions start at 1"),
+});
+
+export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
+  id: true,
+  createdAt: true,
+});
+
+// "true"/"false" in a query string
+const queryBoolean = z.enum(["true", "false"]).transform((value) => value === "true");
+
+// Orderings for the admin queue listing; position goes through the queue, then the waitlist
+export const adminQueueSorts = ["position", "joinedAt"] as const;
+
+// Query string of GET /api/admin/queue. Pages are fetched by passing the previous page's nextCursor,
+// with the other parameters unchanged.
+export const adminQueueQuerySchema = z.object({
+  dropId: z.string().optional(),
+  // Substring of the email, phone number or Instagram username, any case
+  search: z.string().trim().optional().transform((value) => value || undefined),
+  sort: z.enum(adminQueueSorts).default("position"),
+  order: z.enum(["asc", "desc"]).default("asc"),
+  boosted: queryBoolean.optional(),
+  notifications: queryBoolean.optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Bucket sizes for the joins-over-time chart
+export const analyticsIntervals = ["minute", "hour"] as const;
+
+export const joinTimelineQuerySchema = z.object({
+  interval: z.enum(analyticsIntervals).default("hour"),
+});
+
+// Columns and formats offered by the admin queue export, in their default order
+export const queueExportColumns = ["email", "phone", "tier", "position", "instagramUsername", "joinedAt", "notifications"] as const;
+export const queueExportFormats = ["csv", "jsonl"] as const;
+
+// Query string of GET /api/admin/queue-export; columns is a comma-separated list, from/to bound joinedAt
+export const queueExportQuerySchema = z.object({
+  format: z.enum(queueExportFormats).default("csv"),
+  columns: z.string().optional()
+    .transform((value) => value ? value.split(",").map((column) => column.trim()).filter(Boolean) : [...queueExportColumns])
+    .pipe(z.array(z.enum(queueExportColumns)).min(1, "Pick at least one column")),
+  dropId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+}).refine((query) => !query.from || !query.to || query.from <= query.to, {
+  message: "The start of the range must be before its end",
+  path: ["from"],
+});
+
+// Where imported entries go in the queue tier: after everyone, ahead of everyone, or from a chosen position on
+export const queueImportPlacements = ["end", "top", "position"] as const;
+
+// Query string of POST /api/admin/queue-import; the CSV itself is the request body
+export const queueImportOptionsSchema = z.object({
+  dropId: z.string().min(1, "Drop is required"),
+  placement: z.enum(queueImportPlacements).default("end"),
+  start: z.coerce.number().int().min(1, "Positions start at 1").optional(),
+  // Preview unless explicitly told to write
+  dryRun: queryBoolean.default("true"),
+  // Send imported people the usual "you're in the queue" email and text
+  notify: queryBoolean.default("false"),
+}).refine((options) => options.placement !== "position" || options.start !== undefined, {
+  message: "Choose the first position for the imported entries",
+  path: ["start"],
 });
 
 export type InsertQueueEntry = z.infer<typeof insertQueueEntrySchema>;
 export type QueueEntry = typeof queueEntries.$inferSelect;
 export type InsertDrop = z.infer<typeof insertDropSchema>;
 export type Drop = typeof drops.$inferSelect;
+export type DropStatus = typeof dropStatuses[number];
+export type QueueTier = typeof queueTiers[number];
+export type AbuseSignal = typeof abuseSignals[number];
+// Request details stored with a new entry
+export type SignupMetadata = Pick<QueueEntry, "signupIp" | "userAgent" | "abuseSignals">;
+// Admin edits may also move the drop along its lifecycle
+export type UpdateDrop = z.infer<typeof updateDropSchema>;
+// Drop columns that record a one-off notification batch
+export type DropNotification = "reminderSentAt";
 export type InsertSettings = z.infer<typeof insertSettingsSchema>;
 export type Settings = typeof settings.$inferSelect;
+export type InsertAdminUser = z.infer<typeof insertAdminUserSchema>;
+export type AdminUser = typeof adminUsers.$inferSelect;
+export type AdminRole = typeof adminRoles[number];
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type VerificationStatus = typeof verificationStatuses[number];
+export type InsertSocialVerification = z.infer<typeof insertSocialVerificationSchema>;
+export type SocialVerification = typeof socialVerifications.$inferSelect;
+export type BanKind = typeof banKinds[number];
+export type InsertBan = z.infer<typeof insertBanSchema>;
+export type Ban = typeof bans.$inferSelect;
+export type QueueExportColumn = typeof queueExportColumns[number];
+export type QueueExportFormat = typeof queueExportFormats[number];
+export type QueueExportQuery = z.infer<typeof queueExportQuerySchema>;
+export type AdminQueueQuery = z.infer<typeof adminQueueQuerySchema>;
+export type AdminQueueSort = typeof adminQueueSorts[number];
+export type QueueImportPlacement = typeof queueImportPlacements[number];
+export type QueueImportOptions = z.infer<typeof queueImportOptionsSchema>;
+export type AnalyticsInterval = typeof analyticsIntervals[number];
+
+// Where an entry is in its reserved-access window
+export const accessStatuses = ["waiting", "open", "redeemed", "released"] as const;
+export type AccessStatus = typeof accessStatuses[number];
+
+// A boost claim as listed for moderators, with the queue entry it belongs to
+export type BoostClaim = SocialVerification & {
+  email: string;
+  dropId: string;
+  position: number;
+};
+
+// One page of the admin queue listing; total counts every match, not just this page
+export interface QueueEntryPage {
+  entries: QueueEntry[];
+  nextCursor: string | null;
+  total: number;
+}
+
+// Outcome of one CSV row in a queue import; rows are numbered as in a spreadsheet, the header being row 1
+export interface QueueImportRow {
+  row: number;
+  email: string;
+  // "ready" in a dry run, "created" once written
+  status: "ready" | "created" | "duplicate" | "invalid";
+  position?: number;
+  errors?: string[];
+}
+
+export interface QueueImportReport {
+  dryRun: boolean;
+  created: number;
+  duplicates: number;
+  invalid: number;
+  rows: QueueImportRow[];
+}
+
+// Funnel counts for one drop. Entries still in the queue or on the waitlist are counted by flag;
+// expiredSignups never confirmed and were removed, so sign-ups = entries + expiredSignups.
+export interface DropAnalytics {
+  dropId: string;
+  name: string;
+  dropTime: Date;
+  status: DropStatus;
+  entries: number;
+  verified: number;
+  expiredSignups: number;
+  notifications: number;
+  smsConsent: number;
+  // Entries that submitted a boost claim, and entries whose boost was applied
+  boostClaims: number;
+  boosted: number;
+  admitted: number;
+  redeemed: number;
+  purchased: number;
+}
+
+// Sign-ups in one minute or hour of a drop, counting only entries still in the queue
+export interface JoinTimelinePoint {
+  at: Date;
+  joins: number;
+}
+
+// Manual and scheduled status changes both have to follow these; closed is final
+export const dropStatusTransitions: Record<DropStatus, readonly DropStatus[]> = {
+  scheduled: ["queue_open", "closed"],
+  queue_open: ["live", "closed"],
+  live: ["sold_out", "closed"],
+  sold_out: ["live", "closed"],
+  closed: [],
+};
+
+export function canTransitionDrop(from: DropStatus, to: DropStatus): boolean {
+  return from === to || dropStatusTransitions[from].includes(to);
+}
+
+// People can join while the queue is open and after the drop went live
+export function isDropJoinable(status: DropStatus): boolean {
+  return status === "queue_open" || status === "live";
+}
+
+// New drops wait for their queue opening time, or take sign-ups right away when it has passed or isn't set
+export function initialDropStatus(drop: Pick<InsertDrop, "queueOpensAt">, now = new Date()): DropStatus {
+  return drop.queueOpensAt && drop.queueOpensAt > now ? "scheduled" : "queue_open";
+}
+
+// An email's domain and each parent domain, e.g. a.example.com, example.com, com
+export function domainSuffixes(email: string): string[] {
+  const domain = email.slice(email.lastIndexOf("@") + 1).toLowerCase();
+  const labels = domain.split(".");
+  return labels.map((_, i) => labels.slice(i).join("."));
+}
+
+export function banCovers(ban: Ban, email: string): boolean {
+  return ban.kind === "email" ? email.toLowerCase() === ban.value : domainSuffixes(email).includes(ban.value);
+}